@@ -0,0 +1,18 @@
+// Ambiente dos testes: endpoints fictícios (as chamadas ao N8N são substituídas nos testes),
+// estado apenas em memória e logs desativados
+Object.assign(process.env, {
+  NODE_ENV: 'test',
+  LOG_LEVEL: 'silent',
+  ENCRYPTED_DATA_URL: 'http://localhost:5999/encrypted',
+  N8N_WEBHOOK_URL: 'http://localhost:5999/webhook/process',
+  N8N_CLEAR_WEBHOOK_URL: 'http://localhost:5999/webhook/clear',
+  N8N_READ_WEBHOOK_URL: 'http://localhost:5999/webhook/read',
+  ENCRYPTION_KEY: '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+  API_KEY: 'test-api-key',
+  DECRYPT_WORKER_POOL_SIZE: '0',
+  SCHEDULER_ENABLED: 'false',
+  RUN_HISTORY_FILE: '',
+  RUN_STATUS_FILE: '',
+  SCHEDULES_FILE: '',
+  SYNC_STATE_FILE: ''
+});
@@ -5,7 +5,7 @@ import morgan from 'morgan';
 import compression from 'compression';
 import { config } from '@/config';
 import { logger } from '@/utils/logger';
-import { corsOptions, rateLimitOptions, securityMiddleware } from '@/middleware/security';
+import { corsOptions, rateLimitOptions, RawBodyRequest, securityMiddleware } from '@/middleware/security';
 import { errorHandler, notFoundHandler, unhandledErrorHandler } from '@/middleware/errorHandler';
 import routes from '@/routes';
 
@@ -52,7 +52,16 @@ if (config.nodeEnv === 'development') {
 }
 
 // Parser de JSON
-app.use(express.json({ limit: '10mb' }));
+// A importação tem limite próprio (IMPORT_MAX_BYTES): o corpo é lido antes do parser global
+app.use('/api/data/import', express.json({ limit: config.userImport.maxBytes }));
+
+// O corpo bruto é preservado para verificação de assinaturas HMAC (callback do N8N)
+app.use(express.json({
+  limit: '10mb',
+  verify: (req, res, buf) => {
+    (req as RawBodyRequest).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Middleware de logging de requisições
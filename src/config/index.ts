@@ -1,19 +1,47 @@
 import dotenv from 'dotenv';
-import { ServerConfig } from '@/types';
+import os from 'os';
+import {
+  DataSourceName,
+  DedupeStrategy,
+  EnvironmentName,
+  IdempotencyStoreType,
+  KeyProviderType,
+  ServerConfig,
+  UserRepositoryType
+} from '@/types';
+import { PHONE_REGIONS } from '@/utils/normalize';
 
 // Carregar variáveis de ambiente
 dotenv.config();
 
+// Ambiente selecionado por deploy (dev, staging ou prod); padrão derivado do NODE_ENV
+const ENVIRONMENT_NAMES: EnvironmentName[] = ['dev', 'staging', 'prod'];
+
+const environment = (process.env.APP_ENV || (process.env.NODE_ENV === 'production' ? 'prod' : 'dev')) as EnvironmentName;
+
+/**
+ * Lê um endpoint do ambiente selecionado: a variável com prefixo do ambiente
+ * (ex.: STAGING_N8N_WEBHOOK_URL) tem precedência sobre a variável sem prefixo
+ */
+const environmentVar = (name: string): string | undefined =>
+  process.env[`${environment.toUpperCase()}_${name}`] || process.env[name];
+
+// Webhook de leitura usado antes de N8N_READ_WEBHOOK_URL existir; mantido como padrão apenas
+// em prod, para que deploys de produção sem a variável continuem funcionando. Em dev e staging
+// a variável é obrigatória: esses ambientes não podem ler os dados de produção por omissão.
+export const LEGACY_N8N_READ_WEBHOOK_URL = 'https://full-stack-test-n8n-production.up.railway.app/webhook/get-data';
+
 // Validação das variáveis de ambiente obrigatórias
 const requiredEnvVars = [
   'ENCRYPTED_DATA_URL',
   'N8N_WEBHOOK_URL',
-  'N8N_CLEAR_WEBHOOK_URL'
+  'N8N_CLEAR_WEBHOOK_URL',
+  ...(environment === 'prod' ? [] : ['N8N_READ_WEBHOOK_URL'])
 ];
 
 requiredEnvVars.forEach(envVar => {
-  if (!process.env[envVar]) {
-    throw new Error(`Variável de ambiente obrigatória não encontrada: ${envVar}`);
+  if (!environmentVar(envVar)) {
+    throw new Error(`Variável de ambiente obrigatória não encontrada para o ambiente ${environment}: ${envVar}`);
   }
 });
 
@@ -21,11 +49,108 @@ requiredEnvVars.forEach(envVar => {
 export const config: ServerConfig = {
   port: parseInt(process.env.PORT || '3001', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
-  encryptedDataUrl: process.env.ENCRYPTED_DATA_URL!,
-  n8nWebhookUrl: process.env.N8N_WEBHOOK_URL!,
-  n8nClearWebhookUrl: process.env.N8N_CLEAR_WEBHOOK_URL!,
+  environment,
+  encryptedDataUrl: environmentVar('ENCRYPTED_DATA_URL')!,
+  n8nWebhookUrl: environmentVar('N8N_WEBHOOK_URL')!,
+  n8nClearWebhookUrl: environmentVar('N8N_CLEAR_WEBHOOK_URL')!,
+  n8nReadWebhookUrl: environmentVar('N8N_READ_WEBHOOK_URL') || LEGACY_N8N_READ_WEBHOOK_URL,
   corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:3000',
-  logLevel: process.env.LOG_LEVEL || 'info'
+  logLevel: process.env.LOG_LEVEL || 'info',
+  encryption: {
+    keyProvider: (process.env.ENCRYPTION_KEY_PROVIDER || 'env') as KeyProviderType,
+    key: process.env.ENCRYPTION_KEY,
+    keyFile: process.env.ENCRYPTION_KEY_FILE,
+    keyring: process.env.ENCRYPTION_KEYRING,
+    keyringFile: process.env.ENCRYPTION_KEYRING_FILE,
+    passphrase: process.env.ENCRYPTION_PASSPHRASE,
+    salt: process.env.ENCRYPTION_SALT,
+    gracePeriodMs: parseInt(process.env.ENCRYPTION_KEY_GRACE_PERIOD_HOURS || '24', 10) * 60 * 60 * 1000,
+    macKey: process.env.ENCRYPTION_MAC_KEY
+  },
+  dataSource: {
+    type: (process.env.DATA_SOURCE || 'encrypted-upstream') as DataSourceName,
+    fixtureFile: process.env.FIXTURE_DATA_FILE
+  },
+  streaming: {
+    enabled: process.env.ENCRYPTED_DATA_STREAMING === 'true',
+    batchSize: parseInt(process.env.STREAM_BATCH_SIZE || '1000', 10)
+  },
+  keyCache: {
+    ttlMs: parseInt(process.env.KEY_CACHE_TTL_MS || '3600000', 10), // 1 hora
+    maxEntries: parseInt(process.env.KEY_CACHE_MAX_ENTRIES || '100', 10)
+  },
+  workerPool: {
+    size: parseInt(process.env.DECRYPT_WORKER_POOL_SIZE || String(Math.max(1, os.cpus().length - 1)), 10),
+    taskTimeoutMs: parseInt(process.env.DECRYPT_WORKER_TIMEOUT_MS || '60000', 10)
+  },
+  httpClient: {
+    timeoutMs: parseInt(process.env.N8N_TIMEOUT_MS || '30000', 10),
+    maxRetries: parseInt(process.env.N8N_MAX_RETRIES || '3', 10),
+    baseDelayMs: parseInt(process.env.N8N_RETRY_BASE_DELAY_MS || '500', 10),
+    maxDelayMs: parseInt(process.env.N8N_RETRY_MAX_DELAY_MS || '10000', 10)
+  },
+  circuitBreaker: {
+    failureThreshold: parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5', 10),
+    resetTimeoutMs: parseInt(process.env.CIRCUIT_BREAKER_RESET_TIMEOUT_MS || '30000', 10)
+  },
+  n8nBatch: {
+    size: parseInt(process.env.N8N_BATCH_SIZE || '500', 10),
+    concurrency: parseInt(process.env.N8N_BATCH_CONCURRENCY || '2', 10)
+  },
+  webhookSigning: {
+    secret: process.env.N8N_SIGNING_SECRET,
+    keyId: process.env.N8N_SIGNING_KEY_ID || 'default',
+    toleranceSeconds: parseInt(process.env.N8N_SIGNATURE_TOLERANCE_SECONDS || '300', 10)
+  },
+  idempotency: {
+    store: (process.env.IDEMPOTENCY_STORE || 'memory') as IdempotencyStoreType,
+    file: process.env.IDEMPOTENCY_STORE_FILE,
+    ttlMs: parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '86400', 10) * 1000 // 24 horas
+  },
+  jobs: {
+    concurrency: parseInt(process.env.JOB_CONCURRENCY || '1', 10),
+    // Em serverless (Vercel) o processo pode ser congelado após a resposta, interrompendo o job
+    asyncEnabled: process.env.JOB_ASYNC_ENABLED
+      ? process.env.JOB_ASYNC_ENABLED === 'true'
+      : !process.env.VERCEL
+  },
+  runHistory: {
+    // Vazio mantém o histórico apenas em memória (ex.: serverless sem disco gravável)
+    file: process.env.RUN_HISTORY_FILE ?? './data/run-history.jsonl'
+  },
+  runStatus: {
+    // Vazio mantém os status confirmados pelo N8N apenas em memória
+    file: process.env.RUN_STATUS_FILE ?? './data/run-status.json'
+  },
+  scheduler: {
+    // Em serverless (Vercel) não há processo contínuo para disparar os agendamentos
+    enabled: process.env.SCHEDULER_ENABLED
+      ? process.env.SCHEDULER_ENABLED === 'true'
+      : !process.env.VERCEL,
+    file: process.env.SCHEDULES_FILE ?? './data/schedules.json'
+  },
+  syncState: {
+    // Vazio mantém as impressões digitais apenas em memória: após reinício, a primeira execução é completa
+    file: process.env.SYNC_STATE_FILE ?? './data/sync-state.json'
+  },
+  userImport: {
+    maxBytes: parseInt(process.env.IMPORT_MAX_BYTES || String(1024 * 1024), 10) // 1MB
+  },
+  readCache: {
+    ttlMs: parseInt(process.env.READ_CACHE_TTL_SECONDS || '30', 10) * 1000
+  },
+  userRepository: {
+    type: (process.env.USER_REPOSITORY || 'memory') as UserRepositoryType,
+    file: process.env.USER_REPOSITORY_FILE || './data/users.sqlite'
+  },
+  clearConfirmation: {
+    ttlMs: parseInt(process.env.CLEAR_CONFIRMATION_TTL_SECONDS || '120', 10) * 1000 // 2 minutos
+  },
+  normalization: {
+    defaultRegion: (process.env.PHONE_DEFAULT_REGION || 'BR').toUpperCase(),
+    dedupeStrategy: (process.env.DEDUPE_STRATEGY || 'first') as DedupeStrategy
+  },
+  apiKey: process.env.API_KEY
 };
 
 // Validação da configuração
@@ -38,12 +163,121 @@ export const validateConfig = (): void => {
     throw new Error('NODE_ENV deve ser development, production ou test');
   }
 
+  if (!ENVIRONMENT_NAMES.includes(config.environment)) {
+    throw new Error(`APP_ENV deve ser ${ENVIRONMENT_NAMES.join(', ')}`);
+  }
+
   try {
     new URL(config.encryptedDataUrl);
     new URL(config.n8nWebhookUrl);
     new URL(config.n8nClearWebhookUrl);
+    new URL(config.n8nReadWebhookUrl);
   } catch (error) {
     throw new Error('URLs de configuração inválidas');
   }
+
+  const { encryption } = config;
+
+  if (!['env', 'file', 'keyring', 'passphrase'].includes(encryption.keyProvider)) {
+    throw new Error('ENCRYPTION_KEY_PROVIDER deve ser env, file, keyring ou passphrase');
+  }
+
+  if (encryption.keyProvider === 'file' && !encryption.keyFile) {
+    throw new Error('ENCRYPTION_KEY_FILE é obrigatório para o provedor de chaves file');
+  }
+
+  if (encryption.keyProvider === 'keyring' && !encryption.keyring && !encryption.keyringFile) {
+    throw new Error('ENCRYPTION_KEYRING ou ENCRYPTION_KEYRING_FILE é obrigatório para o provedor de chaves keyring');
+  }
+
+  if (encryption.keyProvider === 'passphrase' && (!encryption.passphrase || !encryption.salt)) {
+    throw new Error('ENCRYPTION_PASSPHRASE e ENCRYPTION_SALT são obrigatórios para o provedor de chaves passphrase');
+  }
+
+  if (isNaN(encryption.gracePeriodMs) || encryption.gracePeriodMs < 0) {
+    throw new Error('ENCRYPTION_KEY_GRACE_PERIOD_HOURS deve ser um número não negativo');
+  }
+
+  if (!['encrypted-upstream', 'fixture'].includes(config.dataSource.type)) {
+    throw new Error('DATA_SOURCE deve ser encrypted-upstream ou fixture');
+  }
+
+  if (config.dataSource.type === 'fixture' && !config.dataSource.fixtureFile) {
+    throw new Error('FIXTURE_DATA_FILE é obrigatório quando DATA_SOURCE=fixture');
+  }
+
+  if (isNaN(config.streaming.batchSize) || config.streaming.batchSize < 1) {
+    throw new Error('STREAM_BATCH_SIZE deve ser um número maior que zero');
+  }
+
+  if (isNaN(config.keyCache.ttlMs) || config.keyCache.ttlMs < 0 || isNaN(config.keyCache.maxEntries) || config.keyCache.maxEntries < 1) {
+    throw new Error('KEY_CACHE_TTL_MS deve ser não negativo e KEY_CACHE_MAX_ENTRIES maior que zero');
+  }
+
+  if (isNaN(config.workerPool.size) || config.workerPool.size < 0) {
+    throw new Error('DECRYPT_WORKER_POOL_SIZE deve ser um número não negativo (0 desabilita o pool)');
+  }
+
+  const { httpClient, circuitBreaker } = config;
+
+  if ([httpClient.timeoutMs, httpClient.maxRetries, httpClient.baseDelayMs, httpClient.maxDelayMs].some(v => isNaN(v) || v < 0)) {
+    throw new Error('N8N_TIMEOUT_MS, N8N_MAX_RETRIES e atrasos de retry devem ser números não negativos');
+  }
+
+  if (isNaN(circuitBreaker.failureThreshold) || circuitBreaker.failureThreshold < 1 || isNaN(circuitBreaker.resetTimeoutMs) || circuitBreaker.resetTimeoutMs < 0) {
+    throw new Error('CIRCUIT_BREAKER_FAILURE_THRESHOLD deve ser maior que zero e CIRCUIT_BREAKER_RESET_TIMEOUT_MS não negativo');
+  }
+
+  if ([config.n8nBatch.size, config.n8nBatch.concurrency].some(v => isNaN(v) || v < 1)) {
+    throw new Error('N8N_BATCH_SIZE e N8N_BATCH_CONCURRENCY devem ser números maiores que zero');
+  }
+
+  if (config.webhookSigning.secret !== undefined && config.webhookSigning.secret.length < 32) {
+    throw new Error('N8N_SIGNING_SECRET deve ter pelo menos 32 caracteres');
+  }
+
+  if (!['memory', 'file'].includes(config.idempotency.store)) {
+    throw new Error('IDEMPOTENCY_STORE deve ser memory ou file');
+  }
+
+  if (config.idempotency.store === 'file' && !config.idempotency.file) {
+    throw new Error('IDEMPOTENCY_STORE_FILE é obrigatório quando IDEMPOTENCY_STORE=file');
+  }
+
+  if (isNaN(config.idempotency.ttlMs) || config.idempotency.ttlMs < 1000) {
+    throw new Error('IDEMPOTENCY_TTL_SECONDS deve ser um número maior que zero');
+  }
+
+  if (isNaN(config.jobs.concurrency) || config.jobs.concurrency < 1) {
+    throw new Error('JOB_CONCURRENCY deve ser um número maior que zero');
+  }
+
+  if (isNaN(config.webhookSigning.toleranceSeconds) || config.webhookSigning.toleranceSeconds < 1) {
+    throw new Error('N8N_SIGNATURE_TOLERANCE_SECONDS deve ser um número maior que zero');
+  }
+
+  if (isNaN(config.userImport.maxBytes) || config.userImport.maxBytes < 1) {
+    throw new Error('IMPORT_MAX_BYTES deve ser um número maior que zero');
+  }
+
+  if (isNaN(config.readCache.ttlMs) || config.readCache.ttlMs < 0) {
+    throw new Error('READ_CACHE_TTL_SECONDS deve ser um número não negativo');
+  }
+
+  if (!['memory', 'sqlite'].includes(config.userRepository.type)) {
+    throw new Error('USER_REPOSITORY deve ser memory ou sqlite');
+  }
+
+  if (isNaN(config.clearConfirmation.ttlMs) || config.clearConfirmation.ttlMs < 1000) {
+    throw new Error('CLEAR_CONFIRMATION_TTL_SECONDS deve ser um número maior que zero');
+  }
+
+  if (!PHONE_REGIONS[config.normalization.defaultRegion]) {
+    throw new Error(`PHONE_DEFAULT_REGION deve ser ${Object.keys(PHONE_REGIONS).join(', ')}`);
+  }
+
+  if (!['first', 'last', 'most-complete'].includes(config.normalization.dedupeStrategy)) {
+    throw new Error('DEDUPE_STRATEGY deve ser first, last ou most-complete');
+  }
 };
 
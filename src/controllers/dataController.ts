@@ -1,49 +1,151 @@
 import { Request, Response, NextFunction } from 'express';
-import { ApiResponse, User } from '@/types';
+import {
+  ApiResponse,
+  ClearConfirmation,
+  ClearRequest,
+  DataFlowPreview,
+  DataQuery,
+  EncryptedData,
+  ExecuteOptions,
+  ExecuteQuery,
+  ExportFormat,
+  ImportResult,
+  Job,
+  RunCallbackPayload,
+  RunHistoryQuery,
+  RunRecord,
+  Schedule,
+  ScheduleInput,
+  SyncSummary,
+  User
+} from '@/types';
+import { config } from '@/config';
+import { clearConfirmations } from '@/services/clearConfirmation';
+import { dataFlowService } from '@/services/dataFlow';
+import { dataSource } from '@/services/dataSource';
 import { encryptionService } from '@/services/encryptionService';
+import { jobRunner } from '@/services/jobRunner';
 import { n8nService } from '@/services/n8nService';
+import { readCache } from '@/services/readCache';
+import { runHistory } from '@/services/runHistory';
+import { runStatusStore } from '@/services/runStatusStore';
+import { scheduler } from '@/services/scheduler';
 import { logger } from '@/utils/logger';
+import { toCsv, toNdjson } from '@/utils/export';
+import { matchesIfNoneMatch, strongEtag } from '@/utils/httpCache';
+import { extractRecords, queryRecords } from '@/utils/records';
 import { CustomError } from '@/middleware/errorHandler';
+import { getImportFormat } from '@/middleware/validation';
+
+// Resumo da sincronização incremental para a mensagem de resposta
+const describeSync = (sync: SyncSummary): string =>
+  sync.mode === 'incremental'
+    ? ` Sincronização incremental: ${sync.added} adicionados, ${sync.updated} atualizados, ${sync.removed} removidos.`
+    : '';
+
+// Content-Type das exportações de GET /get-data
+const EXPORT_CONTENT_TYPES: Record<Exclude<ExportFormat, 'json'>, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8'
+};
+
+// Sem ?format, o formato vem do cabeçalho Accept (padrão: json)
+const negotiateExportFormat = (req: Request): ExportFormat => {
+  const accepted = req.accepts(['application/json', 'text/csv', 'application/x-ndjson']);
+  return accepted === 'text/csv' ? 'csv' : accepted === 'application/x-ndjson' ? 'ndjson' : 'json';
+};
 
 export class DataController {
   /**
-   * Executa o fluxo completo: busca dados criptografados, descriptografa e envia para N8N
+   * Executa o fluxo completo: busca dados criptografados, descriptografa e envia para N8N.
+   * Com ?async=true, enfileira um job e responde 202 com o id para consulta.
    */
   public async executeDataFlow(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      logger.info('Iniciando fluxo de execução de dados');
+      const options: ExecuteOptions = req.body;
+      const { async: runAsync } = req.query as ExecuteQuery;
 
-      // 1. Buscar dados criptografados do endpoint externo
-      const encryptedData = await n8nService.fetchEncryptedData();
-      
-      // 2. Validar estrutura dos dados criptografados
-      if (!encryptionService.validateEncryptedData(encryptedData)) {
-        throw new CustomError('Dados criptografados inválidos', 400);
+      if (options.dryRun) {
+        if (runAsync) {
+          throw new CustomError('dryRun não pode ser combinado com async=true', 400);
+        }
+
+        const preview = await dataFlowService.preview(options, options.preview!);
+
+        const response: ApiResponse<DataFlowPreview> = {
+          success: true,
+          data: preview,
+          message: `Dry-run concluído. ${preview.stats.usersCount} usuários seriam enviados em ${preview.payload.totalBatches} lotes; nada foi enviado ao N8N.`,
+          meta: {
+            source: preview.source,
+            dryRun: true,
+            page: preview.page,
+            pageSize: preview.pageSize,
+            total: preview.stats.usersCount,
+            totalPages: preview.totalPages
+          }
+        };
+
+        res.status(200).json(response);
+        return;
       }
 
-      // 3. Descriptografar dados
-      const users = await encryptionService.processEncryptedData(encryptedData);
+      if (runAsync) {
+        if (!config.jobs.asyncEnabled) {
+          throw new CustomError('Execução assíncrona indisponível neste ambiente: use o modo síncrono', 400);
+        }
 
-      // 4. Enviar dados para N8N
-      const n8nResponse = await n8nService.sendDataToN8N(users);
+        const job = jobRunner.enqueue(options);
 
-      if (!n8nResponse.success) {
-        throw new CustomError(n8nResponse.error || 'Erro ao processar dados no N8N', 500);
+        const response: ApiResponse<Job> = {
+          success: true,
+          data: job,
+          message: 'Execução enfileirada. Consulte o status em /api/data/jobs/' + job.id
+        };
+
+        res.status(202).location(`/api/data/jobs/${job.id}`).json(response);
+        return;
+      }
+
+      const result = await dataFlowService.execute(options);
+
+      if (result.processing === 'stream') {
+        const response: ApiResponse = {
+          success: true,
+          data: result.stream,
+          message: `Fluxo executado com sucesso. ${result.usersCount} usuários processados em ${result.stream!.batches} lotes.`,
+          meta: {
+            source: result.source,
+            runId: result.runId,
+            processing: 'stream',
+            sync: result.sync,
+            normalization: result.normalization,
+            ...(options.mode === 'lenient' && { validation: result.validation })
+          }
+        };
+
+        res.status(200).json(response);
+        return;
       }
 
-      // 5. Resposta de sucesso
+      // 207 quando apenas parte dos lotes foi aceita pelo N8N
       const response: ApiResponse<User[]> = {
-        success: true,
-        data: users,
-        message: `Fluxo executado com sucesso. ${users.length} usuários processados.`
+        success: !result.partial,
+        data: result.users,
+        ...(result.partial
+          ? { error: `Fluxo executado parcialmente. ${result.deliveredUsers} de ${result.usersCount} usuários processados.` }
+          : { message: `Fluxo executado com sucesso. ${result.usersCount} usuários processados.${describeSync(result.sync)}` }),
+        meta: {
+          source: result.source,
+          runId: result.runId,
+          sync: result.sync,
+          normalization: result.normalization,
+          ...(result.delivery && { n8n: result.delivery }),
+          ...(options.mode === 'lenient' && { validation: result.validation })
+        }
       };
 
-      logger.info('Fluxo de execução concluído com sucesso', {
-        usersCount: users.length,
-        n8nSuccess: n8nResponse.success
-      });
-
-      res.status(200).json(response);
+      res.status(result.partial ? 207 : 200).json(response);
 
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
@@ -58,27 +160,143 @@ export class DataController {
   }
 
   /**
-   * Limpa os dados no N8N e no banco de dados
+   * Retorna o estado de um job assíncrono de execução
+   */
+  public async getJob(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const job = jobRunner.get(req.params.id);
+
+      if (!job) {
+        throw new CustomError(`Job não encontrado ou expirado: ${req.params.id}`, 404);
+      }
+
+      const response: ApiResponse<Job> = {
+        success: true,
+        data: job
+      };
+
+      res.status(200).json(response);
+
+    } catch (error: unknown) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cancela um job enfileirado ou em execução
+   */
+  public async cancelJob(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const job = jobRunner.cancel(req.params.id);
+
+      if (!job) {
+        throw new CustomError(`Job não encontrado ou expirado: ${req.params.id}`, 404);
+      }
+
+      // Jobs em execução param na próxima etapa ou lote; o estado final é consultado via GET
+      const response: ApiResponse<Job> = {
+        success: true,
+        data: job,
+        message: job.state === 'cancelled' ? 'Job cancelado' : 'Cancelamento solicitado'
+      };
+
+      res.status(job.state === 'cancelled' ? 200 : 202).json(response);
+
+    } catch (error: unknown) {
+      next(error);
+    }
+  }
+
+  /**
+   * Importa usuários enviados diretamente (JSON, NDJSON ou CSV) e os encaminha ao N8N
+   */
+  public async importUsers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const users: User[] = req.body;
+      const result = await dataFlowService.importUsers(users, getImportFormat(req)!);
+
+      // 207 quando apenas parte dos lotes foi aceita pelo N8N
+      const response: ApiResponse<ImportResult> = {
+        success: !result.partial,
+        data: result,
+        ...(result.partial
+          ? { error: `Importação parcial. ${result.deliveredUsers} de ${result.usersCount} usuários processados.` }
+          : { message: `Importação concluída. ${result.usersCount} usuários enviados ao N8N.` }),
+        meta: {
+          runId: result.runId,
+          format: result.format
+        }
+      };
+
+      res.status(result.partial ? 207 : 200).json(response);
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+
+      logger.error('Erro na importação de usuários', {
+        error: errorMessage
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Limpa os dados no N8N e no banco de dados.
+   * Com emails ou createdBefore, a limpeza é parcial e imediata. Sem escopo, a limpeza completa
+   * exige duas chamadas: a primeira retorna um token de confirmação e a prévia de registros
+   * afetados; a segunda, com confirmationToken, remove os dados.
    */
   public async clearData(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      logger.info('Iniciando limpeza de dados');
+      const { confirmationToken, ...scope }: ClearRequest = req.body;
 
-      // Solicitar limpeza no N8N
-      const n8nResponse = await n8nService.clearDataInN8N();
+      if (scope.emails || scope.createdBefore) {
+        await dataFlowService.clear(scope);
+
+        const response: ApiResponse = {
+          success: true,
+          message: scope.emails
+            ? `Limpeza solicitada para ${scope.emails.length} emails`
+            : `Limpeza solicitada para registros criados antes de ${scope.createdBefore}`,
+          meta: { scope }
+        };
+
+        res.status(200).json(response);
+        return;
+      }
+
+      if (!confirmationToken) {
+        const confirmation = clearConfirmations.issue(await dataFlowService.countStoredRecords());
+
+        logger.info('Limpeza completa aguardando confirmação', {
+          previewCount: confirmation.previewCount,
+          expiresAt: confirmation.expiresAt
+        });
 
-      if (!n8nResponse.success) {
-        throw new CustomError(n8nResponse.error || 'Erro ao limpar dados no N8N', 500);
+        const response: ApiResponse<ClearConfirmation> = {
+          success: true,
+          data: confirmation,
+          message: `A limpeza completa removerá ${confirmation.previewCount} registros. ` +
+            'Reenvie a requisição com confirmationToken para confirmar.'
+        };
+
+        res.status(200).json(response);
+        return;
+      }
+
+      if (!clearConfirmations.consume(confirmationToken)) {
+        throw new CustomError('Token de confirmação inválido, expirado ou já utilizado', 400);
       }
 
+      // Solicitar limpeza no N8N
+      await dataFlowService.clear();
+
       // Resposta de sucesso
       const response: ApiResponse = {
         success: true,
         message: 'Dados limpos com sucesso'
       };
 
-      logger.info('Limpeza de dados concluída com sucesso');
-
       res.status(200).json(response);
 
     } catch (error: unknown) {
@@ -93,6 +311,244 @@ export class DataController {
     }
   }
 
+  /**
+   * Criptografa um array de usuários e retorna o envelope
+   */
+  public async encryptData(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const users: User[] = req.body;
+      const algorithm = req.query.algorithm as string | undefined;
+
+      const envelope = await encryptionService.encrypt(users, algorithm);
+
+      const response: ApiResponse<EncryptedData> = {
+        success: true,
+        data: envelope,
+        message: `${users.length} usuários criptografados com sucesso`
+      };
+
+      logger.info('Envelope criptografado gerado', {
+        usersCount: users.length,
+        kid: envelope.kid,
+        algorithm: envelope.algorithm
+      });
+
+      res.status(200).json(response);
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+
+      logger.error('Erro ao criptografar dados', {
+        error: errorMessage
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Descriptografa um envelope fornecido, sem enviar nada ao N8N
+   */
+  public async decryptData(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const envelope: EncryptedData | string = req.body.jwe || req.body;
+
+      if (!encryptionService.validateEncryptedData(envelope)) {
+        throw new CustomError('Dados criptografados inválidos', 400);
+      }
+
+      const users = await encryptionService.processEncryptedData(envelope);
+
+      const response: ApiResponse<User[]> = {
+        success: true,
+        data: users,
+        message: `${users.length} usuários descriptografados com sucesso`
+      };
+
+      logger.info('Envelope descriptografado', {
+        usersCount: users.length,
+        format: typeof envelope === 'string' ? 'jwe' : 'envelope'
+      });
+
+      res.status(200).json(response);
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+
+      logger.error('Erro ao descriptografar envelope', {
+        error: errorMessage
+      });
+      next(error instanceof CustomError ? error : new CustomError(errorMessage, 400));
+    }
+  }
+
+  /**
+   * Recebe a confirmação do N8N após a inserção assíncrona no PostgreSQL
+   */
+  public async handleCallback(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const payload: RunCallbackPayload = req.body;
+
+      const run = await runStatusStore.recordCallback(payload);
+
+      if (!run) {
+        throw new CustomError(`Execução não encontrada ou expirada: ${payload.runId}`, 404);
+      }
+
+      logger.info('Callback do N8N recebido', {
+        runId: payload.runId,
+        batchIndex: payload.batchIndex,
+        status: payload.status,
+        rowsInserted: payload.rowsInserted
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: { runId: run.runId, state: run.state },
+        message: 'Callback registrado'
+      };
+
+      res.status(200).json(response);
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+
+      logger.error('Erro ao registrar callback do N8N', {
+        error: errorMessage
+      });
+      next(error);
+    }
+  }
+
+  /**
+   * Lista o histórico de execuções (execute e clear), paginado e filtrado
+   */
+  public async listRuns(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const query = req.query as unknown as RunHistoryQuery;
+      const page = await runHistory.list(query);
+
+      const response: ApiResponse<RunRecord[]> = {
+        success: true,
+        data: page.records,
+        meta: {
+          page: page.page,
+          pageSize: page.pageSize,
+          total: page.total,
+          totalPages: page.totalPages
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error: unknown) {
+      next(error);
+    }
+  }
+
+  /**
+   * Detalhes de uma execução do histórico, com a confirmação do N8N quando disponível
+   */
+  public async getRun(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const run = await runHistory.get(req.params.id);
+
+      if (!run) {
+        throw new CustomError(`Execução não encontrada no histórico: ${req.params.id}`, 404);
+      }
+
+      const confirmation = await runStatusStore.get(run.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: {
+          ...run,
+          ...(confirmation && { confirmation })
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error: unknown) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retorna o status final de uma execução, confirmado pelos callbacks do N8N
+   */
+  public async getRunStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const run = await runStatusStore.get(req.params.runId);
+
+      if (!run) {
+        throw new CustomError(`Execução não encontrada ou expirada: ${req.params.runId}`, 404);
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: run
+      };
+
+      res.status(200).json(response);
+
+    } catch (error: unknown) {
+      next(error);
+    }
+  }
+
+  /**
+   * Lista os agendamentos e indica se o agendador está ativo neste ambiente
+   */
+  public async listSchedules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const response: ApiResponse<Schedule[]> = {
+        success: true,
+        data: await scheduler.list(),
+        meta: { enabled: scheduler.enabled }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error: unknown) {
+      next(error);
+    }
+  }
+
+  public async createSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedule = await scheduler.create(req.body as ScheduleInput);
+
+      const response: ApiResponse<Schedule> = {
+        success: true,
+        data: schedule,
+        message: 'Agendamento criado'
+      };
+
+      res.status(201).json(response);
+
+    } catch (error: unknown) {
+      next(error);
+    }
+  }
+
+  public async deleteSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!await scheduler.remove(req.params.id)) {
+        throw new CustomError(`Agendamento não encontrado: ${req.params.id}`, 404);
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Agendamento removido'
+      };
+
+      res.status(200).json(response);
+
+    } catch (error: unknown) {
+      next(error);
+    }
+  }
+
   /**
    * Verifica o status dos serviços
    */
@@ -102,16 +558,23 @@ export class DataController {
 
       // Verificar conectividade com N8N
       const n8nAvailable = await n8nService.checkN8NHealth();
+      const circuitBreakers = n8nService.getCircuitBreakerStatus();
+      const hasOpenCircuit = Object.values(circuitBreakers).some(breaker => breaker.state !== 'closed');
 
       const response: ApiResponse = {
         success: true,
         data: {
-          status: 'healthy',
+          status: hasOpenCircuit ? 'degraded' : 'healthy',
+          environment: config.environment,
           services: {
             n8n: n8nAvailable ? 'available' : 'unavailable',
             encryption: 'available',
+            dataSource: dataSource.name,
             database: 'unknown' // Será verificado pelo N8N
           },
+          circuitBreakers,
+          readCache: readCache.getStats(),
+          performance: encryptionService.getPerformanceStats(),
           timestamp: new Date().toISOString()
         },
         message: 'Serviços verificados'
@@ -130,28 +593,74 @@ export class DataController {
   }
 
   /**
-   * Busca dados do webhook externo
+   * Busca dados do webhook externo, com filtros, busca, ordenação e paginação.
+   * format=csv|ndjson (ou o cabeçalho Accept) exporta os registros filtrados como arquivo.
+   * A resposta do webhook fica em cache (READ_CACHE_TTL_SECONDS); o ETag permite revalidar com 304.
    */
   public async getData(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      logger.info('Iniciando busca de dados do webhook externo');
+      const query = req.query as unknown as DataQuery;
+      const format = query.format ?? negotiateExportFormat(req);
 
-      // Buscar dados do webhook externo
-      const data = await n8nService.fetchDataFromExternalWebhook();
+      logger.info('Iniciando busca de dados do webhook externo', { format });
 
-      // Resposta de sucesso
-      const response: ApiResponse = {
-        success: true,
-        data: data,
-        message: 'Dados obtidos com sucesso do webhook externo'
-      };
+      // Buscar dados do webhook externo (ou do cache de leitura)
+      const { data, hit } = await readCache.fetch(() => n8nService.fetchDataFromExternalWebhook());
+
+      const records = extractRecords(data);
+      if (!records) {
+        throw new CustomError('Resposta do webhook de leitura em formato não reconhecido', 502);
+      }
+
+      const result = queryRecords(records, { ...query, format });
 
       logger.info('Busca de dados concluída com sucesso', {
-        hasData: !!data,
-        dataKeys: data ? Object.keys(data) : []
+        format,
+        cache: hit ? 'hit' : 'miss',
+        total: result.total,
+        returned: result.records.length
       });
 
-      res.status(200).json(response);
+      let body: string;
+
+      if (format !== 'json') {
+        const date = new Date().toISOString().slice(0, 10);
+        res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+        res.setHeader('Content-Disposition', `attachment; filename="usuarios-${date}.${format}"`);
+        res.setHeader('X-Total-Count', String(result.total));
+        body = format === 'csv' ? toCsv(result.records) : toNdjson(result.records);
+      } else {
+        // Resposta de sucesso
+        const response: ApiResponse = {
+          success: true,
+          data: result.records,
+          message: 'Dados obtidos com sucesso do webhook externo',
+          meta: {
+            page: result.page,
+            pageSize: result.pageSize,
+            total: result.total,
+            totalPages: result.totalPages
+          }
+        };
+
+        res.setHeader('Content-Type', 'application/json; charset=utf-8');
+        body = JSON.stringify(response);
+      }
+
+      // Dados pessoais: só o navegador guarda a resposta, e sempre revalida com o ETag,
+      // para que uma execução ou limpeza apareça no próximo carregamento
+      const etag = strongEtag(body);
+      res.setHeader('ETag', etag);
+      res.setHeader('Cache-Control', 'private, no-cache');
+      res.vary('Accept');
+      res.setHeader('X-Cache', readCache.enabled ? (hit ? 'HIT' : 'MISS') : 'BYPASS');
+
+      if (matchesIfNoneMatch(req.get('If-None-Match'), etag)) {
+        res.status(304).end();
+        return;
+      }
+
+      res.status(200).send(body);
 
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
@@ -177,9 +686,26 @@ export class DataController {
           version: '1.0.0',
           description: 'API para integração com N8N, descriptografia AES-256-GCM e PostgreSQL',
           endpoints: {
-            'POST /api/data/execute': 'Executa fluxo completo de dados',
-            'POST /api/data/clear': 'Limpa dados no N8N e banco',
-            'GET /api/data/get-data': 'Busca dados do webhook externo',
+            'POST /api/data/execute': 'Executa fluxo completo de dados (?async=true para job em segundo plano, indisponível em serverless; dryRun para pré-visualizar sem enviar ao N8N)',
+            'GET /api/data/jobs/:id': 'Estado, etapas e contagens de um job de execução (requer API key)',
+            'DELETE /api/data/jobs/:id': 'Cancela um job enfileirado ou em execução (requer API key)',
+            'POST /api/data/clear': 'Limpa dados no N8N e banco (emails ou createdBefore para limpeza parcial; limpeza completa exige confirmationToken)',
+            'POST /api/data/import': 'Importa usuários em JSON, NDJSON ou CSV e envia ao N8N (requer API key)',
+            'POST /api/data/encrypt': 'Gera envelope criptografado a partir de usuários (requer API key)',
+            'POST /api/data/decrypt': 'Descriptografa um envelope sem enviar ao N8N (requer API key)',
+            'POST /api/data/callback': 'Confirmação assíncrona do N8N (requer assinatura HMAC)',
+            'GET /api/data/runs': 'Histórico de execuções (paginação, status, operação e período; requer API key)',
+            'GET /api/data/runs/:id': 'Detalhes de uma execução do histórico (requer API key)',
+            'GET /api/data/runs/:runId/status': 'Status final de uma execução confirmado pelo N8N (requer API key)',
+            'GET /api/data/schedules': 'Lista os agendamentos e o estado do agendador (requer API key)',
+            'POST /api/data/schedules': 'Cria um agendamento cron de execute ou refresh (requer API key)',
+            'DELETE /api/data/schedules/:id': 'Remove um agendamento (requer API key)',
+            'GET /api/data/get-data': 'Busca dados do webhook externo (filtros, busca, sort, page/pageSize e format=json|csv|ndjson; cache com ETag)',
+            'GET /api/users': 'Lista os usuários do repositório local (filtros, busca, sort e page/pageSize; requer API key)',
+            'GET /api/users/:id': 'Detalhes de um usuário do repositório local (requer API key)',
+            'POST /api/users': 'Cria um usuário no repositório local (requer API key)',
+            'PUT /api/users/:id': 'Substitui os dados de um usuário (requer API key)',
+            'DELETE /api/users/:id': 'Remove um usuário do repositório local (requer API key)',
             'GET /api/health': 'Verifica status dos serviços',
             'GET /api/info': 'Informações da API'
           },
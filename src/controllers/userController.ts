@@ -0,0 +1,150 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponse, DataQuery, StoredUser, User } from '@/types';
+import { CustomError } from '@/middleware/errorHandler';
+import { UserNormalizationSession } from '@/services/userNormalizer';
+import { userRepository } from '@/services/userRepository';
+import { logger } from '@/utils/logger';
+import { queryRecords } from '@/utils/records';
+
+const parseUserId = (req: Request): number => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new CustomError(`Id de usuário inválido: ${req.params.id}`, 400);
+  }
+  return id;
+};
+
+// Mesma normalização do fluxo de execução (telefone E.164, email canônico, nome sem espaços repetidos)
+const normalizeUser = (user: User): User => new UserNormalizationSession().process([user])[0];
+
+/**
+ * CRUD do repositório local de usuários, sem passar pelo fluxo de execução nem pelo N8N
+ */
+export class UserController {
+  /**
+   * Lista os usuários com filtros, busca, ordenação e paginação (mesmos parâmetros de get-data)
+   */
+  public async listUsers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const query = req.query as unknown as DataQuery;
+      const result = queryRecords(await userRepository.list(), { ...query, format: 'json' });
+
+      const response: ApiResponse<StoredUser[]> = {
+        success: true,
+        data: result.records,
+        meta: {
+          page: result.page,
+          pageSize: result.pageSize,
+          total: result.total,
+          totalPages: result.totalPages,
+          repository: userRepository.type
+        }
+      };
+
+      res.status(200).json(response);
+
+    } catch (error: unknown) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retorna um usuário pelo id
+   */
+  public async getUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const id = parseUserId(req);
+      const user = await userRepository.findById(id);
+
+      if (!user) {
+        throw new CustomError(`Usuário não encontrado: ${id}`, 404);
+      }
+
+      const response: ApiResponse<StoredUser> = {
+        success: true,
+        data: user
+      };
+
+      res.status(200).json(response);
+
+    } catch (error: unknown) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cria um usuário; 409 se o email já estiver cadastrado
+   */
+  public async createUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await userRepository.create(normalizeUser(req.body));
+
+      logger.info('Usuário criado no repositório local', { id: user.id });
+
+      const response: ApiResponse<StoredUser> = {
+        success: true,
+        data: user,
+        message: 'Usuário criado'
+      };
+
+      res.status(201).json(response);
+
+    } catch (error: unknown) {
+      next(error);
+    }
+  }
+
+  /**
+   * Substitui os dados de um usuário; 409 se o novo email pertencer a outro usuário
+   */
+  public async updateUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const id = parseUserId(req);
+      const user = await userRepository.update(id, normalizeUser(req.body));
+
+      if (!user) {
+        throw new CustomError(`Usuário não encontrado: ${id}`, 404);
+      }
+
+      logger.info('Usuário atualizado no repositório local', { id });
+
+      const response: ApiResponse<StoredUser> = {
+        success: true,
+        data: user,
+        message: 'Usuário atualizado'
+      };
+
+      res.status(200).json(response);
+
+    } catch (error: unknown) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove um usuário
+   */
+  public async deleteUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const id = parseUserId(req);
+
+      if (!await userRepository.remove(id)) {
+        throw new CustomError(`Usuário não encontrado: ${id}`, 404);
+      }
+
+      logger.info('Usuário removido do repositório local', { id });
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Usuário removido'
+      };
+
+      res.status(200).json(response);
+
+    } catch (error: unknown) {
+      next(error);
+    }
+  }
+}
+
+export const userController = new UserController();
@@ -1,11 +1,18 @@
 import app from './app';
-import { config, validateConfig } from '@/config';
+import { config, LEGACY_N8N_READ_WEBHOOK_URL, validateConfig } from '@/config';
+import { scheduler } from '@/services/scheduler';
 import { logger } from '@/utils/logger';
 
 // Validar configuração antes de iniciar o servidor
 try {
   validateConfig();
   logger.info('Configuração validada com sucesso');
+
+  if (config.n8nReadWebhookUrl === LEGACY_N8N_READ_WEBHOOK_URL) {
+    logger.warn('N8N_READ_WEBHOOK_URL não configurada em prod; usando o webhook de leitura padrão', {
+      url: LEGACY_N8N_READ_WEBHOOK_URL
+    });
+  }
 } catch (error: unknown) {
   const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
   logger.error('Erro na configuração', { error: errorMessage });
@@ -32,6 +39,12 @@ const startServer = async (): Promise<void> => {
 📋 Health Check: http://localhost:${config.port}/api/data/health
 📖 Info: http://localhost:${config.port}/api/data/info
       `);
+
+      // Iniciar execuções agendadas
+      scheduler.start().catch((error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+        logger.error('Erro ao iniciar agendador', { error: errorMessage });
+      });
     });
 
     // Configurar timeout do servidor
@@ -40,6 +53,7 @@ const startServer = async (): Promise<void> => {
     // Tratamento de sinais do sistema
     const gracefulShutdown = (signal: string) => {
       logger.info(`Sinal ${signal} recebido, iniciando shutdown graceful`);
+      scheduler.stop();
       
       server.close((err) => {
         if (err) {
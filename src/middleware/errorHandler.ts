@@ -20,6 +20,46 @@ export class CustomError extends Error implements AppError {
   }
 }
 
+// Erro para envelopes que referenciam uma chave desconhecida ou expirada
+export class UnknownKeyError extends CustomError {
+  public readonly kid?: string;
+
+  constructor(kid?: string, reason: string = 'desconhecida') {
+    super(`Chave de criptografia ${reason}: ${kid ?? '(sem kid)'}`, 400);
+    this.name = 'UnknownKeyError';
+    this.kid = kid;
+  }
+}
+
+// Erro para chamadas bloqueadas por circuit breaker aberto
+export class CircuitOpenError extends CustomError {
+  public readonly endpoint: string;
+  public readonly retryAfterMs: number;
+
+  constructor(endpoint: string, retryAfterMs: number) {
+    super(`Circuito aberto para ${endpoint}: serviço indisponível, nova tentativa em ${Math.ceil(retryAfterMs / 1000)}s`, 503);
+    this.name = 'CircuitOpenError';
+    this.endpoint = endpoint;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Erro para execuções interrompidas por cancelamento
+export class OperationCancelledError extends CustomError {
+  constructor(message: string = 'Execução cancelada') {
+    super(message, 409);
+    this.name = 'OperationCancelledError';
+  }
+}
+
+// Erro para emails já cadastrados no repositório local de usuários
+export class DuplicateEmailError extends CustomError {
+  constructor() {
+    super('Email já cadastrado para outro usuário', 409);
+    this.name = 'DuplicateEmailError';
+  }
+}
+
 // Middleware de tratamento de erros
 export const errorHandler = (
   error: AppError,
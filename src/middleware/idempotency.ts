@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { config } from '@/config';
+import { idempotencyStore } from '@/services/idempotencyStore';
+import { ApiResponse } from '@/types';
+import { logger } from '@/utils/logger';
+
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+const MAX_KEY_LENGTH = 255;
+
+// Identifica a requisição original: a mesma chave não pode ser reutilizada com outro corpo, rota ou query
+const fingerprintRequest = (req: Request): string =>
+  crypto.createHash('sha256')
+    .update(`${req.method} ${req.originalUrl}\n${JSON.stringify(req.body ?? {})}`)
+    .digest('hex');
+
+const reject = (res: Response, statusCode: number, error: string): void => {
+  const response: ApiResponse = { success: false, error };
+  res.status(statusCode).json(response);
+};
+
+/**
+ * Middleware de Idempotency-Key.
+ * - primeira requisição: executa e armazena a resposta pelo TTL configurado
+ * - repetição concluída: devolve a resposta armazenada (header Idempotent-Replayed)
+ * - repetição em andamento: 409
+ * Respostas 5xx não são armazenadas, permitindo nova tentativa com a mesma chave.
+ */
+export const idempotency = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const key = req.get(IDEMPOTENCY_HEADER);
+
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    reject(res, 400, `${IDEMPOTENCY_HEADER} deve ter entre 1 e ${MAX_KEY_LENGTH} caracteres`);
+    return;
+  }
+
+  const fingerprint = fingerprintRequest(req);
+
+  try {
+    const existing = await idempotencyStore.acquire(key, fingerprint, config.idempotency.ttlMs);
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        reject(res, 422, `${IDEMPOTENCY_HEADER} já utilizada com outra requisição`);
+        return;
+      }
+
+      if (existing.state === 'in-flight') {
+        logger.warn('Requisição com Idempotency-Key em andamento', { url: req.url });
+        reject(res, 409, 'Requisição com esta Idempotency-Key ainda em processamento');
+        return;
+      }
+
+      logger.info('Resposta idempotente reutilizada', { url: req.url, statusCode: existing.statusCode });
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(existing.statusCode!).json(existing.body);
+      return;
+    }
+  } catch (error: unknown) {
+    next(error);
+    return;
+  }
+
+  // A resposta é capturada em res.json (e não no evento finish) para que a chave seja
+  // concluída mesmo se o cliente desconectar antes do fim do processamento
+  const originalJson = res.json.bind(res);
+
+  res.json = (body: unknown): Response => {
+    const settle = res.statusCode >= 500
+      ? idempotencyStore.release(key)
+      : idempotencyStore.complete(key, res.statusCode, body);
+
+    settle.catch((error: unknown) => {
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+      logger.error('Erro ao registrar resposta idempotente', { url: req.url, error: errorMessage });
+    });
+
+    return originalJson(body);
+  };
+
+  next();
+};
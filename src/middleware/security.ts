@@ -1,9 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
 import helmet from 'helmet';
 import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import { config } from '@/config';
 import { logger } from '@/utils/logger';
+import { isSignatureValid, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '@/utils/signature';
+
+// Requisição com o corpo bruto preservado pelo parser de JSON
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
 
 // Configuração do CORS
 export const corsOptions = {
@@ -23,7 +30,8 @@ export const corsOptions = {
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-API-Key', 'Idempotency-Key'],
+  exposedHeaders: ['Idempotent-Replayed'],
   optionsSuccessStatus: 200
 };
 
@@ -125,7 +133,8 @@ export const attackDetection = (req: Request, res: Response, next: NextFunction)
   const attackPatterns = [
     /<script/i,
     /javascript:/i,
-    /on\w+\s*=/i,
+    // Atributos de evento (onload=, onerror=); \b evita falso positivo em parâmetros como phone=
+    /\bon\w+\s*=/i,
     /union\s+select/i,
     /drop\s+table/i,
     /delete\s+from/i,
@@ -157,3 +166,89 @@ export const attackDetection = (req: Request, res: Response, next: NextFunction)
   next();
 };
 
+// Middleware de autenticação por API key (Authorization: Bearer <key> ou X-API-Key)
+export const requireApiKey = (req: Request, res: Response, next: NextFunction): void => {
+  if (!config.apiKey) {
+    logger.warn('Rota protegida acessada sem API_KEY configurada', { url: req.url });
+
+    res.status(403).json({
+      success: false,
+      error: 'Rota protegida desabilitada: API_KEY não configurada'
+    });
+    return;
+  }
+
+  const authorization = req.get('Authorization') || '';
+  const provided = authorization.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length)
+    : req.get('X-API-Key') || '';
+
+  const expectedDigest = crypto.createHash('sha256').update(config.apiKey).digest();
+  const providedDigest = crypto.createHash('sha256').update(provided).digest();
+
+  if (!provided || !crypto.timingSafeEqual(expectedDigest, providedDigest)) {
+    logger.warn('Tentativa de acesso não autorizado', {
+      url: req.url,
+      ip: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.status(401).json({
+      success: false,
+      error: 'Não autorizado'
+    });
+    return;
+  }
+
+  next();
+};
+
+// Middleware de autenticação por assinatura HMAC (X-Signature / X-Timestamp), usado pelo callback do N8N
+export const requireWebhookSignature = (req: Request, res: Response, next: NextFunction): void => {
+  const { secret, toleranceSeconds } = config.webhookSigning;
+
+  if (!secret) {
+    logger.warn('Callback recebido sem N8N_SIGNING_SECRET configurado', { url: req.url });
+
+    res.status(403).json({
+      success: false,
+      error: 'Rota protegida desabilitada: N8N_SIGNING_SECRET não configurado'
+    });
+    return;
+  }
+
+  const timestamp = req.get(TIMESTAMP_HEADER) || '';
+  const signature = req.get(SIGNATURE_HEADER) || '';
+  const body = (req as RawBodyRequest).rawBody?.toString('utf8') ?? '';
+  const ageSeconds = Math.abs(Math.floor(Date.now() / 1000) - parseInt(timestamp, 10));
+
+  if (!/^\d+$/.test(timestamp) || ageSeconds > toleranceSeconds) {
+    logger.warn('Assinatura com timestamp ausente ou fora da janela de tolerância', {
+      url: req.url,
+      ip: req.ip,
+      timestamp
+    });
+
+    res.status(401).json({
+      success: false,
+      error: 'Assinatura expirada ou inválida'
+    });
+    return;
+  }
+
+  if (!signature || !isSignatureValid(secret, timestamp, body, signature)) {
+    logger.warn('Assinatura de webhook inválida', {
+      url: req.url,
+      ip: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    res.status(401).json({
+      success: false,
+      error: 'Assinatura expirada ou inválida'
+    });
+    return;
+  }
+
+  next();
+};
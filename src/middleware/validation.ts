@@ -1,21 +1,30 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
-import { ApiResponse } from '@/types';
+import { ApiResponse, ImportFormat, ImportRowError, User, UserRecordValidation } from '@/types';
+import { parseCsv, parseNdjson } from '@/utils/importParsers';
+import { SORTABLE_FIELDS } from '@/utils/records';
 import { logger } from '@/utils/logger';
+import { maskPii } from '@/utils/mask';
 
 // Schema de validação para dados de usuário
-const userSchema = Joi.object({
+export const userSchema = Joi.object({
   nome: Joi.string().min(1).max(128).required().messages({
+    'any.required': 'Nome é obrigatório',
+    'string.base': 'Nome deve ser um texto',
     'string.empty': 'Nome é obrigatório',
     'string.min': 'Nome deve ter pelo menos 1 caractere',
     'string.max': 'Nome deve ter no máximo 128 caracteres'
   }),
   email: Joi.string().email().max(255).required().messages({
+    'any.required': 'Email é obrigatório',
+    'string.base': 'Email deve ser um texto',
     'string.empty': 'Email é obrigatório',
     'string.email': 'Email deve ter um formato válido',
     'string.max': 'Email deve ter no máximo 255 caracteres'
   }),
   phone: Joi.string().min(1).max(20).required().messages({
+    'any.required': 'Telefone é obrigatório',
+    'string.base': 'Telefone deve ser um texto',
     'string.empty': 'Telefone é obrigatório',
     'string.min': 'Telefone deve ter pelo menos 1 caractere',
     'string.max': 'Telefone deve ter no máximo 20 caracteres'
@@ -23,11 +32,222 @@ const userSchema = Joi.object({
 });
 
 // Schema de validação para array de usuários
+/**
+ * Valida um registro bruto (descriptografado ou importado) com o userSchema, após remover
+ * espaços das extremidades e colocar o email em minúsculas. Os valores inválidos são
+ * devolvidos mascarados.
+ */
+export const validateUserRecord = (record: unknown): UserRecordValidation => {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return { errors: [{ field: '(registro)', reason: 'Registro deve ser um objeto' }] };
+  }
+
+  const raw = record as Record<string, unknown>;
+  const normalized = {
+    nome: typeof raw.nome === 'string' ? raw.nome.trim() : raw.nome,
+    email: typeof raw.email === 'string' ? raw.email.trim().toLowerCase() : raw.email,
+    phone: typeof raw.phone === 'string' || typeof raw.phone === 'number' ? String(raw.phone).trim() : raw.phone
+  };
+  const email = typeof normalized.email === 'string' && normalized.email ? normalized.email : undefined;
+
+  const { error, value } = userSchema.validate(normalized, { abortEarly: false, stripUnknown: true });
+
+  if (error) {
+    return {
+      email,
+      errors: error.details.map(detail => {
+        const field = String(detail.path[0] ?? '(registro)');
+        const fieldValue = normalized[field as keyof typeof normalized];
+        return {
+          field,
+          reason: detail.message,
+          ...(fieldValue !== undefined && { value: maskPii(field, fieldValue) })
+        };
+      })
+    };
+  }
+
+  return { user: value as User, email, errors: [] };
+};
+
 const usersArraySchema = Joi.array().items(userSchema).min(1).required().messages({
   'array.min': 'Deve haver pelo menos 1 usuário',
   'array.base': 'Dados devem ser um array de usuários'
 });
 
+// Schema de validação para envelopes criptografados (campos hex ou token JWE compacto)
+const requiredUnlessJwe = (schema: Joi.StringSchema) => schema.when('jwe', {
+  is: Joi.exist(),
+  then: Joi.forbidden(),
+  otherwise: Joi.required()
+});
+
+const encryptedEnvelopeSchema = Joi.object({
+  jwe: Joi.string().pattern(/^[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]*){4}$/).optional().messages({
+    'string.pattern.base': 'jwe deve estar em serialização compacta'
+  }),
+  encryptedData: requiredUnlessJwe(Joi.string().hex().min(2)).messages({
+    'string.empty': 'encryptedData é obrigatório',
+    'string.hex': 'encryptedData deve estar em hexadecimal'
+  }),
+  iv: requiredUnlessJwe(Joi.string().hex().min(2)).messages({
+    'string.empty': 'iv é obrigatório',
+    'string.hex': 'iv deve estar em hexadecimal'
+  }),
+  authTag: requiredUnlessJwe(Joi.string().hex().min(2)).messages({
+    'string.empty': 'authTag é obrigatório',
+    'string.hex': 'authTag deve estar em hexadecimal'
+  }),
+  kid: Joi.string().max(128).optional(),
+  algorithm: Joi.string().max(64).optional()
+});
+
+// Schema de validação para o modo de validação dos registros
+const validationModeSchema = Joi.string().valid('strict', 'lenient').default('strict').messages({
+  'any.only': 'mode deve ser strict ou lenient'
+});
+
+// Schema de validação para as opções do dry-run
+const previewOptionsSchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  pageSize: Joi.number().integer().min(1).max(500).default(50).messages({
+    'number.max': 'preview.pageSize deve ser no máximo 500'
+  }),
+  maskPii: Joi.boolean().default(false).messages({
+    'boolean.base': 'preview.maskPii deve ser true ou false'
+  })
+});
+
+// Schema de validação para opções de execução do fluxo
+const fullSyncSchema = Joi.boolean().default(false).messages({
+  'boolean.base': 'full deve ser true ou false'
+});
+
+const executeOptionsSchema = Joi.object({
+  mode: validationModeSchema,
+  full: fullSyncSchema,
+  dryRun: Joi.boolean().default(false).messages({
+    'boolean.base': 'dryRun deve ser true ou false'
+  }),
+  preview: Joi.when('dryRun', {
+    is: true,
+    then: previewOptionsSchema.default(),
+    otherwise: Joi.forbidden().messages({
+      'any.unknown': 'preview só é permitido com dryRun'
+    })
+  })
+});
+
+// Schema de validação para a query de execução
+const executeQuerySchema = Joi.object({
+  async: Joi.boolean().default(false).messages({
+    'boolean.base': 'async deve ser true ou false'
+  })
+});
+
+// Schema de validação para a consulta do histórico de execuções
+const runHistoryQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  pageSize: Joi.number().integer().min(1).max(100).default(20),
+  status: Joi.array()
+    .items(Joi.string().valid('succeeded', 'partial', 'failed', 'cancelled'))
+    .single()
+    .messages({ 'any.only': 'status deve ser succeeded, partial, failed ou cancelled' }),
+  operation: Joi.string().valid('execute', 'clear', 'import').messages({
+    'any.only': 'operation deve ser execute, clear ou import'
+  }),
+  from: Joi.date().iso().messages({ 'date.format': 'from deve estar no formato ISO 8601' }),
+  to: Joi.date().iso().min(Joi.ref('from')).messages({
+    'date.format': 'to deve estar no formato ISO 8601',
+    'date.min': 'to deve ser posterior a from'
+  })
+});
+
+// Schema de validação para a limpeza: escopo por emails ou data de corte, ou token de confirmação da limpeza completa
+const clearSchema = Joi.object({
+  emails: Joi.array()
+    .items(Joi.string().trim().lowercase().email().max(255))
+    .min(1)
+    .max(1000)
+    .unique()
+    .messages({
+      'array.min': 'emails deve conter pelo menos um email',
+      'array.max': 'emails deve conter no máximo 1000 emails',
+      'array.unique': 'emails não deve conter emails repetidos'
+    }),
+  createdBefore: Joi.date().iso().raw().messages({
+    'date.format': 'createdBefore deve estar no formato ISO 8601'
+  }),
+  confirmationToken: Joi.string().max(128)
+})
+  .oxor('emails', 'createdBefore')
+  .oxor('emails', 'confirmationToken')
+  .oxor('createdBefore', 'confirmationToken')
+  .messages({
+    'object.oxor': 'Informe apenas um entre emails, createdBefore e confirmationToken'
+  });
+
+// Schema de validação para a consulta e exportação dos dados salvos
+const sortKeyPattern = `-?(?:${SORTABLE_FIELDS.join('|')})`;
+
+const dataQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1),
+  pageSize: Joi.number().integer().min(1).max(1000).messages({
+    'number.max': 'pageSize deve ser no máximo 1000'
+  }),
+  sort: Joi.string().pattern(new RegExp(`^${sortKeyPattern}(?:,${sortKeyPattern})*$`)).messages({
+    'string.pattern.base': `sort deve conter campos entre ${SORTABLE_FIELDS.join(', ')}, separados por vírgula (prefixo - para decrescente)`
+  }),
+  search: Joi.string().trim().min(1).max(128),
+  nome: Joi.string().trim().min(1).max(128),
+  email: Joi.string().trim().min(1).max(255),
+  phone: Joi.string().trim().min(1).max(20),
+  format: Joi.string().valid('json', 'csv', 'ndjson').messages({
+    'any.only': 'format deve ser json, csv ou ndjson'
+  })
+});
+
+// Schema de validação para a listagem do repositório local de usuários (sem exportação)
+const userListQuerySchema = dataQuerySchema.keys({
+  format: Joi.forbidden().messages({ 'any.unknown': 'format não é suportado em /api/users' })
+});
+
+// Schema de validação para o callback do N8N
+const runCallbackSchema = Joi.object({
+  runId: Joi.string().uuid().required().messages({
+    'any.required': 'runId é obrigatório',
+    'string.guid': 'runId deve ser um UUID'
+  }),
+  batchIndex: Joi.number().integer().min(0).optional(),
+  status: Joi.string().valid('success', 'error').required().messages({
+    'any.required': 'status é obrigatório',
+    'any.only': 'status deve ser success ou error'
+  }),
+  rowsInserted: Joi.number().integer().min(0).default(0),
+  errors: Joi.array().items(Joi.string().max(1000)).max(100).default([])
+});
+
+// Schema de validação para criação de agendamentos
+const scheduleSchema = Joi.object({
+  name: Joi.string().max(128).optional(),
+  cron: Joi.string().max(128).required().messages({
+    'any.required': 'cron é obrigatório',
+    'string.empty': 'cron é obrigatório'
+  }),
+  action: Joi.string().valid('execute', 'refresh').default('execute').messages({
+    'any.only': 'action deve ser execute ou refresh'
+  }),
+  options: Joi.object({ mode: validationModeSchema, full: fullSyncSchema }).default(),
+  missedRunPolicy: Joi.string().valid('skip', 'run-once').default('skip').messages({
+    'any.only': 'missedRunPolicy deve ser skip ou run-once'
+  })
+});
+
+// Schema de validação para query de criptografia
+const encryptQuerySchema = Joi.object({
+  algorithm: Joi.string().max(64).optional()
+});
+
 // Middleware de validação genérico
 export const validateRequest = (schema: Joi.ObjectSchema | Joi.ArraySchema) => {
   return (req: Request, res: Response, next: NextFunction): void => {
@@ -65,6 +285,9 @@ export const validateRequest = (schema: Joi.ObjectSchema | Joi.ArraySchema) => {
 // Middleware específico para validação de usuários
 export const validateUsers = validateRequest(usersArraySchema);
 
+// Middleware específico para validação de envelopes criptografados
+export const validateEncryptedEnvelope = validateRequest(encryptedEnvelopeSchema);
+
 // Middleware para validação de parâmetros de query
 export const validateQuery = (schema: Joi.ObjectSchema) => {
   return (req: Request, res: Response, next: NextFunction): void => {
@@ -98,6 +321,110 @@ export const validateQuery = (schema: Joi.ObjectSchema) => {
   };
 };
 
+// Middleware específico para validação das opções de execução
+export const validateExecuteOptions = validateRequest(executeOptionsSchema);
+
+// Middleware específico para validação da query de execução
+export const validateExecuteQuery = validateQuery(executeQuerySchema);
+
+// Middleware específico para validação da consulta do histórico de execuções
+export const validateRunHistoryQuery = validateQuery(runHistoryQuerySchema);
+
+// Middleware específico para validação da limpeza
+export const validateClear = validateRequest(clearSchema);
+
+// Middleware específico para validação da consulta dos dados salvos
+export const validateDataQuery = validateQuery(dataQuerySchema);
+
+// Middlewares específicos para validação do repositório local de usuários
+export const validateUser = validateRequest(userSchema);
+export const validateUserListQuery = validateQuery(userListQuerySchema);
+
+// Middleware específico para validação do callback do N8N
+export const validateRunCallback = validateRequest(runCallbackSchema);
+
+// Middleware específico para validação de agendamentos
+export const validateSchedule = validateRequest(scheduleSchema);
+
+// Middleware específico para validação da query de criptografia
+export const validateEncryptQuery = validateQuery(encryptQuerySchema);
+
+// Limite de erros por linha retornados na resposta de uma importação inválida
+const MAX_REPORTED_IMPORT_ERRORS = 1000;
+
+/**
+ * Formato do corpo de importação, pelo Content-Type
+ */
+export const getImportFormat = (req: Request): ImportFormat | undefined => {
+  if (req.is('application/json')) {
+    return 'json';
+  }
+  if (req.is('text/csv')) {
+    return 'csv';
+  }
+  if (req.is(['application/x-ndjson', 'application/ndjson'])) {
+    return 'ndjson';
+  }
+  return undefined;
+};
+
+// Middleware para validação do corpo de importação: array JSON (validateUsers), NDJSON ou CSV.
+// Nos formatos de texto, cada registro é validado com o userSchema e os erros indicam a linha.
+export const validateImport = (req: Request, res: Response, next: NextFunction): void => {
+  const format = getImportFormat(req);
+
+  if (format === 'json') {
+    validateUsers(req, res, next);
+    return;
+  }
+
+  if (!format || typeof req.body !== 'string') {
+    const response: ApiResponse = {
+      success: false,
+      error: 'Content-Type não suportado: use application/json, application/x-ndjson ou text/csv'
+    };
+
+    res.status(415).json(response);
+    return;
+  }
+
+  const parsed = format === 'csv' ? parseCsv(req.body) : parseNdjson(req.body);
+  const errors: ImportRowError[] = [...parsed.errors];
+  const users: User[] = [];
+
+  for (const { line, record } of parsed.records) {
+    const result = validateUserRecord(record);
+
+    if (result.user) {
+      users.push(result.user);
+    } else {
+      errors.push(...result.errors.map(error => ({ line, ...error })));
+    }
+  }
+
+  if (errors.length > 0 || users.length === 0) {
+    logger.warn('Erro de validação na importação', {
+      format,
+      errors: errors.length,
+      url: req.url,
+      method: req.method
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      error: errors.length > 0 ? 'Dados de entrada inválidos' : 'Deve haver pelo menos 1 usuário',
+      data: errors.sort((a, b) => a.line - b.line).slice(0, MAX_REPORTED_IMPORT_ERRORS),
+      meta: { format, totalErrors: errors.length }
+    };
+
+    res.status(400).json(response);
+    return;
+  }
+
+  req.body = users;
+  next();
+};
+
 // Middleware para sanitização de entrada
 export const sanitizeInput = (req: Request, res: Response, next: NextFunction): void => {
   const sanitizeString = (str: string): string => {
@@ -0,0 +1,325 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import app from '@/app';
+import { ApiResponse, ClearConfirmation, ImportRowError } from '@/types';
+import { config } from '@/config';
+import { criticalRateLimit } from '@/middleware/security';
+import { dataFlowService } from '@/services/dataFlow';
+import { jobRunner } from '@/services/jobRunner';
+import { n8nService } from '@/services/n8nService';
+import { readCache } from '@/services/readCache';
+import { userRepository } from '@/services/userRepository';
+
+describe('POST /api/data/import', () => {
+  let server: Server;
+  let baseUrl: string;
+  let sendData: jest.SpyInstance;
+
+  beforeAll(done => {
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/data/import`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(async () => {
+    await userRepository.removeWhere();
+    sendData = jest.spyOn(n8nService, 'sendDataToN8N').mockImplementation(async (users, runId) => ({
+      success: true,
+      data: {
+        runId: runId ?? 'run',
+        usersCount: users.length,
+        deliveredUsers: users.length,
+        totalBatches: 1,
+        succeededBatches: 1,
+        failedBatches: 0,
+        batches: [{ index: 0, usersCount: users.length, success: true, status: 200 }]
+      }
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const post = (body: string, contentType: string, apiKey = config.apiKey): Promise<Response> =>
+    fetch(baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': contentType, 'X-API-Key': apiKey ?? '' },
+      body
+    });
+
+  it('importa CSV e envia os usuários normalizados ao N8N', async () => {
+    const response = await post('nome;email;telefone\nAna;ANA@email.com;+5511999999999\n', 'text/csv');
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ success: true, data: { usersCount: 1, format: 'csv' } });
+    expect(sendData.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ nome: 'Ana', email: 'ana@email.com', phone: '+5511999999999' })
+    ]);
+  });
+
+  it('recusa NDJSON com registros inválidos, apontando a linha', async () => {
+    const response = await post(
+      '{"nome":"Ana","email":"ana@email.com","phone":"+5511999999999"}\n{"nome":"Bia","email":"bia"}\n',
+      'application/x-ndjson'
+    );
+    const body = (await response.json()) as ApiResponse<ImportRowError[]>;
+
+    expect(response.status).toBe(400);
+    expect(body.meta).toEqual({ format: 'ndjson', totalErrors: 2 });
+    expect(body.data).toEqual([
+      expect.objectContaining({ line: 2, field: 'email', reason: 'Email deve ter um formato válido' }),
+      expect.objectContaining({ line: 2, field: 'phone', reason: 'Telefone é obrigatório' })
+    ]);
+    expect(sendData).not.toHaveBeenCalled();
+  });
+
+  it('recusa Content-Type não suportado', async () => {
+    const response = await post('<users/>', 'application/xml');
+
+    expect(response.status).toBe(415);
+  });
+
+  it('exige a API key', async () => {
+    const response = await post('[]', 'application/json', 'chave-errada');
+
+    expect(response.status).toBe(401);
+  });
+
+  it('aplica IMPORT_MAX_BYTES ao corpo JSON', async () => {
+    const users = Array.from({ length: 2 }, (_, index) => ({
+      nome: 'x'.repeat(config.userImport.maxBytes),
+      email: `u${index}@email.com`,
+      phone: '+5511999999999'
+    }));
+
+    const response = await post(JSON.stringify(users), 'application/json');
+
+    expect(response.status).toBe(413);
+    expect(sendData).not.toHaveBeenCalled();
+  });
+});
+
+describe('Rotas de jobs e histórico de execuções', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(done => {
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/data`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  it.each([
+    ['GET', '/jobs/1'],
+    ['DELETE', '/jobs/1'],
+    ['GET', '/runs'],
+    ['GET', '/runs/1'],
+    ['GET', '/runs/1/status'],
+    ['GET', '/schedules']
+  ])('%s %s exige a API key', async (method, route) => {
+    const response = await fetch(`${baseUrl}${route}`, { method });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('recusa execute?async=true quando os jobs em segundo plano estão desabilitados', async () => {
+    config.jobs.asyncEnabled = false;
+    const enqueue = jest.spyOn(jobRunner, 'enqueue');
+
+    try {
+      const response = await fetch(`${baseUrl}/execute?async=true`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{}'
+      });
+
+      expect(response.status).toBe(400);
+      await expect(response.json()).resolves.toMatchObject({ error: expect.stringContaining('assíncrona') });
+      expect(enqueue).not.toHaveBeenCalled();
+    } finally {
+      config.jobs.asyncEnabled = true;
+      enqueue.mockRestore();
+    }
+  });
+
+  it('com a API key, responde 404 para jobs desconhecidos', async () => {
+    const response = await fetch(`${baseUrl}/jobs/desconhecido`, { headers: { 'X-API-Key': config.apiKey ?? '' } });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('GET /api/data/get-data: cache de leitura e ETag', () => {
+  let server: Server;
+  let baseUrl: string;
+  let fetchData: jest.SpyInstance;
+  let stored: { nome: string; email: string }[];
+
+  beforeAll(done => {
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/data/get-data`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    readCache.invalidate();
+    stored = [{ nome: 'Ana', email: 'ana@email.com' }];
+    fetchData = jest.spyOn(n8nService, 'fetchDataFromExternalWebhook').mockImplementation(async () => ({ data: stored }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const get = (etag?: string): Promise<Response> =>
+    fetch(baseUrl, { headers: etag ? { 'If-None-Match': etag } : {} });
+
+  it('responde do cache e devolve 304 quando o ETag corresponde', async () => {
+    const first = await get();
+    const etag = first.headers.get('ETag') ?? '';
+
+    expect(first.status).toBe(200);
+    expect(first.headers.get('X-Cache')).toBe('MISS');
+    expect(first.headers.get('Cache-Control')).toBe('private, no-cache');
+    expect(etag).toMatch(/^".+"$/);
+
+    const revalidated = await get(etag);
+
+    expect(revalidated.status).toBe(304);
+    expect(revalidated.headers.get('X-Cache')).toBe('HIT');
+    await expect(revalidated.text()).resolves.toBe('');
+    expect(fetchData).toHaveBeenCalledTimes(1);
+
+    expect((await get('"outro"')).status).toBe(200);
+  });
+
+  it('a limpeza invalida o cache e muda o ETag', async () => {
+    const etag = (await get()).headers.get('ETag') ?? '';
+    jest.spyOn(n8nService, 'clearDataInN8N').mockImplementation(async () => {
+      stored = [];
+      return { success: true, meta: { n8nStatusCode: 200 } };
+    });
+
+    await dataFlowService.clear();
+    const response = await get(etag);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    await expect(response.json()).resolves.toMatchObject({ data: [], meta: { total: 0 } });
+    expect(fetchData).toHaveBeenCalledTimes(2);
+  });
+
+  it('a importação invalida o cache', async () => {
+    await get();
+    jest.spyOn(n8nService, 'sendDataToN8N').mockImplementation(async (users, runId) => {
+      stored = [...stored, ...users];
+      return {
+        success: true,
+        data: {
+          runId: runId ?? 'run',
+          usersCount: users.length,
+          deliveredUsers: users.length,
+          totalBatches: 1,
+          succeededBatches: 1,
+          failedBatches: 0,
+          batches: [{ index: 0, usersCount: users.length, success: true, status: 200 }]
+        }
+      };
+    });
+
+    await dataFlowService.importUsers([{ nome: 'Bia', email: 'bia@email.com', phone: '+5511988888888' }], 'json');
+    const response = await get();
+
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    await expect(response.json()).resolves.toMatchObject({ meta: { total: 2 } });
+  });
+});
+
+describe('POST /api/data/clear: confirmação da limpeza completa', () => {
+  let server: Server;
+  let baseUrl: string;
+  let clearData: jest.SpyInstance;
+
+  beforeAll(done => {
+    server = app.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/data/clear`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    // O limite das rotas críticas é compartilhado com os testes de importação e execução
+    criticalRateLimit.resetKey('127.0.0.1');
+    jest.spyOn(n8nService, 'fetchDataFromExternalWebhook').mockResolvedValue({ data: [{ id: 1 }, { id: 2 }] });
+    clearData = jest.spyOn(n8nService, 'clearDataInN8N').mockResolvedValue({ success: true, meta: { n8nStatusCode: 200 } });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const clear = (body: Record<string, unknown>): Promise<Response> =>
+    fetch(baseUrl, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+  const issueToken = async (): Promise<string> => {
+    const response = await clear({});
+    const body = (await response.json()) as ApiResponse<ClearConfirmation>;
+    return body.data!.confirmationToken;
+  };
+
+  it('a primeira chamada só emite o token com a prévia; a segunda limpa', async () => {
+    const preview = await clear({});
+
+    await expect(preview.json()).resolves.toMatchObject({ data: { previewCount: 2 } });
+    expect(clearData).not.toHaveBeenCalled();
+
+    const token = await issueToken();
+    const response = await clear({ confirmationToken: token });
+
+    expect(response.status).toBe(200);
+    expect(clearData).toHaveBeenCalledWith(undefined);
+  });
+
+  it('recusa reutilizar o token', async () => {
+    const token = await issueToken();
+
+    expect((await clear({ confirmationToken: token })).status).toBe(200);
+    const reused = await clear({ confirmationToken: token });
+
+    expect(reused.status).toBe(400);
+    await expect(reused.json()).resolves.toMatchObject({ error: expect.stringContaining('já utilizado') });
+    expect(clearData).toHaveBeenCalledTimes(1);
+  });
+
+  it('recusa o token junto de um escopo, sem consumi-lo', async () => {
+    const token = await issueToken();
+
+    const mismatch = await clear({ confirmationToken: token, emails: ['ana@email.com'] });
+
+    expect(mismatch.status).toBe(400);
+    expect(clearData).not.toHaveBeenCalled();
+    expect((await clear({ confirmationToken: token })).status).toBe(200);
+    expect(clearData).toHaveBeenCalledWith(undefined);
+  });
+});
@@ -1,10 +1,59 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
+import { config } from '@/config';
 import { dataController } from '@/controllers/dataController';
-import { criticalRateLimit, attackDetection, payloadSizeLimit } from '@/middleware/security';
-import { sanitizeInput } from '@/middleware/validation';
+import { idempotency } from '@/middleware/idempotency';
+import {
+  criticalRateLimit,
+  attackDetection,
+  payloadSizeLimit,
+  requireApiKey,
+  requireWebhookSignature
+} from '@/middleware/security';
+import {
+  sanitizeInput,
+  validateEncryptQuery,
+  validateEncryptedEnvelope,
+  validateExecuteOptions,
+  validateClear,
+  validateDataQuery,
+  validateExecuteQuery,
+  validateImport,
+  validateRunCallback,
+  validateRunHistoryQuery,
+  validateSchedule,
+  validateUsers
+} from '@/middleware/validation';
 
 const router = Router();
 
+// Callback do N8N: registrado antes dos middlewares genéricos, pois é autenticado por assinatura
+// e mensagens de erro do PostgreSQL (ex.: "insert into") seriam bloqueadas pela detecção de ataques
+router.post(
+  '/callback',
+  payloadSizeLimit(1024 * 1024),
+  requireWebhookSignature,
+  validateRunCallback,
+  dataController.handleCallback.bind(dataController)
+);
+
+// Importação direta: registrada antes do limite genérico de 1MB, com limite próprio (IMPORT_MAX_BYTES)
+// e parser de texto para NDJSON e CSV
+router.post(
+  '/import',
+  requireApiKey,
+  criticalRateLimit,
+  payloadSizeLimit(config.userImport.maxBytes),
+  express.text({
+    type: ['text/csv', 'application/x-ndjson', 'application/ndjson'],
+    limit: config.userImport.maxBytes
+  }),
+  attackDetection,
+  sanitizeInput,
+  idempotency,
+  validateImport,
+  dataController.importUsers.bind(dataController)
+);
+
 // Middleware específico para rotas de dados
 router.use(attackDetection);
 router.use(sanitizeInput);
@@ -14,19 +63,97 @@ router.use(payloadSizeLimit(1024 * 1024)); // 1MB max
 router.post(
   '/execute',
   criticalRateLimit, // Rate limit mais restritivo para operações críticas
+  idempotency,
+  validateExecuteQuery,
+  validateExecuteOptions,
   dataController.executeDataFlow.bind(dataController)
 );
 
+// Rotas para consultar e cancelar jobs assíncronos de execução: protegidas por API key
+router.get(
+  '/jobs/:id',
+  requireApiKey,
+  dataController.getJob.bind(dataController)
+);
+
+router.delete(
+  '/jobs/:id',
+  requireApiKey,
+  dataController.cancelJob.bind(dataController)
+);
+
 // Rota para limpar dados
 router.post(
   '/clear',
   criticalRateLimit, // Rate limit mais restritivo para operações críticas
+  idempotency,
+  validateClear,
   dataController.clearData.bind(dataController)
 );
 
+// Rota para gerar envelope criptografado
+router.post(
+  '/encrypt',
+  requireApiKey,
+  validateEncryptQuery,
+  validateUsers,
+  dataController.encryptData.bind(dataController)
+);
+
+// Rota para descriptografar envelope sem enviar ao N8N
+router.post(
+  '/decrypt',
+  requireApiKey,
+  validateEncryptedEnvelope,
+  dataController.decryptData.bind(dataController)
+);
+
+// Rotas para o histórico de execuções: protegidas por API key
+router.get(
+  '/runs',
+  requireApiKey,
+  validateRunHistoryQuery,
+  dataController.listRuns.bind(dataController)
+);
+
+router.get(
+  '/runs/:id',
+  requireApiKey,
+  dataController.getRun.bind(dataController)
+);
+
+// Rota para consultar o status final de uma execução: protegida por API key, pois expõe
+// metadados da execução e mensagens de erro do N8N
+router.get(
+  '/runs/:runId/status',
+  requireApiKey,
+  dataController.getRunStatus.bind(dataController)
+);
+
+// Rotas para execuções agendadas: protegidas por API key
+router.get(
+  '/schedules',
+  requireApiKey,
+  dataController.listSchedules.bind(dataController)
+);
+
+router.post(
+  '/schedules',
+  requireApiKey,
+  validateSchedule,
+  dataController.createSchedule.bind(dataController)
+);
+
+router.delete(
+  '/schedules/:id',
+  requireApiKey,
+  dataController.deleteSchedule.bind(dataController)
+);
+
 // Rota para buscar dados do webhook externo
 router.get(
   '/get-data',
+  validateDataQuery,
   dataController.getData.bind(dataController)
 );
 
@@ -1,10 +1,12 @@
 import { Router } from 'express';
 import dataRoutes from './dataRoutes';
+import userRoutes from './userRoutes';
 
 const router = Router();
 
 // Rotas da API
 router.use('/data', dataRoutes);
+router.use('/users', userRoutes);
 
 // Rota raiz da API
 router.get('/', (req, res) => {
@@ -15,10 +17,27 @@ router.get('/', (req, res) => {
     endpoints: {
       'GET /api': 'Informações da API',
       'POST /api/data/execute': 'Executa fluxo completo de dados',
-      'POST /api/data/clear': 'Limpa dados no N8N e banco',
+      'GET /api/data/jobs/:id': 'Estado de um job de execução assíncrono',
+      'DELETE /api/data/jobs/:id': 'Cancela um job de execução',
+      'POST /api/data/clear': 'Limpa dados no N8N e banco (parcial por emails ou createdBefore; completa com confirmação em duas etapas)',
+      'POST /api/data/import': 'Importa usuários (JSON, NDJSON ou CSV)',
+      'POST /api/data/encrypt': 'Gera envelope criptografado a partir de usuários',
+      'POST /api/data/decrypt': 'Descriptografa um envelope sem enviar ao N8N',
+      'POST /api/data/callback': 'Confirmação do processamento pelo N8N',
+      'GET /api/data/runs': 'Histórico de execuções',
+      'GET /api/data/runs/:id': 'Detalhes de uma execução',
+      'GET /api/data/runs/:runId/status': 'Status final de uma execução',
+      'GET /api/data/schedules': 'Lista os agendamentos',
+      'POST /api/data/schedules': 'Cria um agendamento',
+      'DELETE /api/data/schedules/:id': 'Remove um agendamento',
+      'GET /api/users': 'Lista os usuários do repositório local',
+      'GET /api/users/:id': 'Detalhes de um usuário do repositório local',
+      'POST /api/users': 'Cria um usuário no repositório local',
+      'PUT /api/users/:id': 'Atualiza um usuário do repositório local',
+      'DELETE /api/users/:id': 'Remove um usuário do repositório local',
       'GET /api/data/health': 'Verifica status dos serviços',
       'GET /api/data/info': 'Informações detalhadas da API',
-      'GET /api/data/get-data': 'Busca as informações do banco de dados através do webhook externo'
+      'GET /api/data/get-data': 'Busca as informações do banco de dados através do webhook externo, com filtros, paginação e exportação CSV/NDJSON'
     },
     documentation: 'Consulte /api/data/info para informações detalhadas'
   });
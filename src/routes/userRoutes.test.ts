@@ -0,0 +1,43 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import app from '@/app';
+import { config } from '@/config';
+import { userRepository } from '@/services/userRepository';
+
+describe('Rotas /api/users', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(done => {
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/users`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(async () => {
+    await userRepository.removeWhere();
+  });
+
+  it.each(['', '/1'])('GET /api/users%s exige a API key', async route => {
+    const response = await fetch(`${baseUrl}${route}`);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('com a API key, lista os usuários do repositório', async () => {
+    await userRepository.create({ nome: 'Ana', email: 'ana@email.com', phone: '+5511999999999' });
+
+    const response = await fetch(baseUrl, { headers: { 'X-API-Key': config.apiKey ?? '' } });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      success: true,
+      data: [expect.objectContaining({ email: 'ana@email.com' })]
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { userController } from '@/controllers/userController';
+import { idempotency } from '@/middleware/idempotency';
+import { attackDetection, payloadSizeLimit, requireApiKey } from '@/middleware/security';
+import { sanitizeInput, validateUser, validateUserListQuery } from '@/middleware/validation';
+
+const router = Router();
+
+// Middleware específico para rotas de usuários
+router.use(attackDetection);
+router.use(sanitizeInput);
+router.use(payloadSizeLimit(64 * 1024)); // 64KB max: um usuário por requisição
+
+// Todas as rotas exigem API key: os registros contêm dados pessoais (nome, email, telefone)
+router.use(requireApiKey);
+
+// Rotas de consulta do repositório local
+router.get(
+  '/',
+  validateUserListQuery,
+  userController.listUsers.bind(userController)
+);
+
+router.get(
+  '/:id',
+  userController.getUser.bind(userController)
+);
+
+// Rotas de escrita
+router.post(
+  '/',
+  idempotency,
+  validateUser,
+  userController.createUser.bind(userController)
+);
+
+router.put(
+  '/:id',
+  validateUser,
+  userController.updateUser.bind(userController)
+);
+
+router.delete(
+  '/:id',
+  userController.deleteUser.bind(userController)
+);
+
+export default router;
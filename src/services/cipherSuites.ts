@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+import { CipherSuite, EncryptionResult } from '@/types';
+import { CustomError } from '@/middleware/errorHandler';
+
+export const DEFAULT_ALGORITHM = 'aes-256-gcm';
+
+/**
+ * Suíte AEAD nativa do OpenSSL (AES-256-GCM, ChaCha20-Poly1305)
+ */
+class AeadCipherSuite implements CipherSuite {
+  public readonly tagLength = 16;
+  public readonly requiresMacKey = false;
+
+  constructor(
+    public readonly name: string,
+    private readonly cipherName: crypto.CipherGCMTypes | crypto.CipherChaCha20Poly1305Types,
+    public readonly ivLength: number
+  ) {}
+
+  public isAvailable(): boolean {
+    return crypto.getCiphers().includes(this.cipherName);
+  }
+
+  public encrypt(key: Buffer, iv: Buffer, plaintext: Buffer): EncryptionResult {
+    const cipher = crypto.createCipheriv(this.cipherName as crypto.CipherGCMTypes, key, iv, {
+      authTagLength: this.tagLength
+    });
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return { ciphertext, authTag: cipher.getAuthTag() };
+  }
+
+  public decrypt(key: Buffer, iv: Buffer, ciphertext: Buffer, authTag: Buffer): Buffer {
+    const decipher = this.createDecryptStream(key, iv, authTag) as crypto.DecipherGCM;
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+
+  public createDecryptStream(key: Buffer, iv: Buffer, authTag: Buffer): Transform {
+    const decipher = crypto.createDecipheriv(this.cipherName as crypto.CipherGCMTypes, key, iv, {
+      authTagLength: this.tagLength
+    });
+    decipher.setAuthTag(authTag);
+    return decipher;
+  }
+}
+
+/**
+ * AES-256-CBC com HMAC-SHA256 (encrypt-then-MAC), com chaves de cifra e MAC independentes.
+ * A chave recebida tem 64 bytes e é dividida como no RFC 7518 (5.2.2.1): MAC_KEY são os
+ * 32 primeiros bytes e ENC_KEY os 32 últimos. O HMAC-SHA256 (sem truncamento) cobre
+ * IV || texto cifrado e é verificado antes de liberar o resultado final.
+ */
+class CbcHmacCipherSuite implements CipherSuite {
+  public readonly name = 'aes-256-cbc-hmac-sha256';
+  public readonly ivLength = 16;
+  public readonly tagLength = 32;
+  public readonly requiresMacKey = true;
+
+  public isAvailable(): boolean {
+    return crypto.getCiphers().includes('aes-256-cbc');
+  }
+
+  private deriveKeys(key: Buffer): { encKey: Buffer; macKey: Buffer } {
+    if (key.length !== 64) {
+      throw new Error(`Chave de ${this.name} deve ter 64 bytes (MAC_KEY || ENC_KEY)`);
+    }
+    return { macKey: key.subarray(0, 32), encKey: key.subarray(32) };
+  }
+
+  public encrypt(key: Buffer, iv: Buffer, plaintext: Buffer): EncryptionResult {
+    const { encKey, macKey } = this.deriveKeys(key);
+    const cipher = crypto.createCipheriv('aes-256-cbc', encKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    const authTag = crypto.createHmac('sha256', macKey).update(iv).update(ciphertext).digest();
+    return { ciphertext, authTag };
+  }
+
+  public decrypt(key: Buffer, iv: Buffer, ciphertext: Buffer, authTag: Buffer): Buffer {
+    const { encKey, macKey } = this.deriveKeys(key);
+    const expected = crypto.createHmac('sha256', macKey).update(iv).update(ciphertext).digest();
+
+    if (expected.length !== authTag.length || !crypto.timingSafeEqual(expected, authTag)) {
+      throw new Error('Falha na verificação HMAC dos dados');
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-cbc', encKey, iv);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+
+  public createDecryptStream(key: Buffer, iv: Buffer, authTag: Buffer): Transform {
+    const { encKey, macKey } = this.deriveKeys(key);
+    const hmac = crypto.createHmac('sha256', macKey).update(iv);
+    const decipher = crypto.createDecipheriv('aes-256-cbc', encKey, iv);
+
+    return new Transform({
+      transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback) {
+        try {
+          hmac.update(chunk);
+          callback(null, decipher.update(chunk));
+        } catch (error) {
+          callback(error as Error);
+        }
+      },
+      flush(callback: TransformCallback) {
+        try {
+          const expected = hmac.digest();
+          if (expected.length !== authTag.length || !crypto.timingSafeEqual(expected, authTag)) {
+            throw new Error('Falha na verificação HMAC dos dados');
+          }
+          callback(null, decipher.final());
+        } catch (error) {
+          callback(error as Error);
+        }
+      }
+    });
+  }
+}
+
+const registry = new Map<string, CipherSuite>(
+  [
+    new AeadCipherSuite('aes-256-gcm', 'aes-256-gcm', 12),
+    new AeadCipherSuite('chacha20-poly1305', 'chacha20-poly1305', 12),
+    new CbcHmacCipherSuite()
+  ].map(suite => [suite.name, suite])
+);
+
+/**
+ * Obtém a suíte registrada para o algoritmo do envelope
+ * @throws CustomError (400) se o algoritmo não for suportado
+ */
+export const getCipherSuite = (algorithm: string = DEFAULT_ALGORITHM): CipherSuite => {
+  const suite = registry.get(algorithm.toLowerCase());
+
+  if (!suite || !suite.isAvailable()) {
+    throw new CustomError(`Algoritmo de criptografia não suportado: ${algorithm}`, 400);
+  }
+
+  return suite;
+};
+
+/**
+ * Lista os algoritmos registrados e disponíveis no runtime
+ */
+export const listAvailableAlgorithms = (): string[] => {
+  return Array.from(registry.values())
+    .filter(suite => suite.isAvailable())
+    .map(suite => suite.name);
+};
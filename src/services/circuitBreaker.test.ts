@@ -0,0 +1,88 @@
+import { CircuitOpenError } from '@/middleware/errorHandler';
+import { CircuitBreaker } from '@/services/circuitBreaker';
+
+const fail = (): Promise<never> => Promise.reject(new Error('serviço indisponível'));
+const succeed = (): Promise<string> => Promise.resolve('ok');
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = Date.UTC(2024, 0, 1);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    breaker = new CircuitBreaker('n8n-write', 3, 30_000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const failTimes = async (times: number): Promise<void> => {
+    for (let index = 0; index < times; index++) {
+      await expect(breaker.execute(fail)).rejects.toThrow('serviço indisponível');
+    }
+  };
+
+  it('abre após falhas consecutivas no limite e rejeita sem chamar o serviço', async () => {
+    await failTimes(2);
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 2 });
+
+    await failTimes(1);
+    expect(breaker.getSnapshot()).toEqual({
+      state: 'open',
+      consecutiveFailures: 3,
+      failureThreshold: 3,
+      openedAt: '2024-01-01T00:00:00.000Z',
+      nextAttemptAt: '2024-01-01T00:00:30.000Z'
+    });
+
+    const fn = jest.fn(succeed);
+    now += 10_000;
+    const rejection = breaker.execute(fn);
+    await expect(rejection).rejects.toBeInstanceOf(CircuitOpenError);
+    await expect(rejection).rejects.toMatchObject({ statusCode: 503, retryAfterMs: 20_000 });
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('um sucesso zera as falhas consecutivas', async () => {
+    await failTimes(2);
+    await breaker.execute(succeed);
+    await failTimes(2);
+
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 2 });
+  });
+
+  it('erros que não são falha do serviço não abrem o circuito', async () => {
+    for (let index = 0; index < 3; index++) {
+      await expect(breaker.execute(fail, () => false)).rejects.toThrow();
+    }
+
+    expect(breaker.getSnapshot().state).toBe('closed');
+  });
+
+  it('após o reset, uma única chamada de teste fecha o circuito', async () => {
+    await failTimes(3);
+    now += 30_000;
+
+    let release!: () => void;
+    const trial = breaker.execute(() => new Promise<void>(resolve => { release = resolve; }));
+
+    expect(breaker.getSnapshot().state).toBe('half-open');
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    release();
+    await trial;
+    expect(breaker.getSnapshot()).toEqual({ state: 'closed', consecutiveFailures: 0, failureThreshold: 3 });
+  });
+
+  it('falha na chamada de teste reabre o circuito por mais um período', async () => {
+    await failTimes(3);
+    now += 30_000;
+
+    await failTimes(1);
+
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'open', nextAttemptAt: '2024-01-01T00:01:00.000Z' });
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+});
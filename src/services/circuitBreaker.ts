@@ -0,0 +1,130 @@
+import { CircuitBreakerSnapshot, CircuitState } from '@/types';
+import { config } from '@/config';
+import { CircuitOpenError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+
+/**
+ * Circuit breaker por endpoint.
+ * - closed: chamadas passam; falhas consecutivas acima do limite abrem o circuito
+ * - open: chamadas falham imediatamente até o fim do tempo de reset
+ * - half-open: uma chamada de teste decide entre fechar ou reabrir
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(
+    public readonly name: string,
+    private readonly failureThreshold: number,
+    private readonly resetTimeoutMs: number
+  ) {}
+
+  /**
+   * Executa a chamada respeitando o estado do circuito
+   * @param fn - Chamada protegida
+   * @param isFailure - Define quais erros contam como falha do serviço (padrão: todos)
+   */
+  public async execute<T>(fn: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
+    this.beforeCall();
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error: unknown) {
+      if (isFailure(error)) {
+        this.onFailure();
+      } else {
+        this.onSuccess();
+      }
+      throw error;
+    }
+  }
+
+  private beforeCall(): void {
+    if (this.state === 'open') {
+      const elapsed = Date.now() - this.openedAt!;
+      if (elapsed < this.resetTimeoutMs) {
+        throw new CircuitOpenError(this.name, this.resetTimeoutMs - elapsed);
+      }
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(this.name, 0);
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  private onSuccess(): void {
+    this.trialInFlight = false;
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  private onFailure(): void {
+    this.trialInFlight = false;
+    this.consecutiveFailures++;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      if (this.state !== 'open') {
+        this.transition('open');
+      }
+    }
+  }
+
+  private transition(next: CircuitState): void {
+    const previous = this.state;
+    this.state = next;
+
+    const meta = {
+      endpoint: this.name,
+      from: previous,
+      to: next,
+      consecutiveFailures: this.consecutiveFailures
+    };
+
+    if (next === 'open') {
+      logger.error('Circuit breaker aberto', { ...meta, resetTimeoutMs: this.resetTimeoutMs });
+    } else {
+      logger.info('Circuit breaker mudou de estado', meta);
+    }
+  }
+
+  public getSnapshot(): CircuitBreakerSnapshot {
+    const isOpen = this.state === 'open' && this.openedAt !== undefined;
+
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.failureThreshold,
+      ...(isOpen && {
+        openedAt: new Date(this.openedAt!).toISOString(),
+        nextAttemptAt: new Date(this.openedAt! + this.resetTimeoutMs).toISOString()
+      })
+    };
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Obtém (ou cria) o circuit breaker de um endpoint
+ */
+export const getCircuitBreaker = (name: string): CircuitBreaker => {
+  let breaker = breakers.get(name);
+
+  if (!breaker) {
+    breaker = new CircuitBreaker(name, config.circuitBreaker.failureThreshold, config.circuitBreaker.resetTimeoutMs);
+    breakers.set(name, breaker);
+  }
+
+  return breaker;
+};
@@ -0,0 +1,54 @@
+import { ClearConfirmationStore } from '@/services/clearConfirmation';
+
+describe('ClearConfirmationStore', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.UTC(2024, 0, 1);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('emite tokens distintos com a prévia e o vencimento', () => {
+    const store = new ClearConfirmationStore(120_000);
+
+    const confirmation = store.issue(42);
+
+    expect(confirmation).toEqual({
+      confirmationToken: expect.stringMatching(/^[A-Za-z0-9_-]{32}$/),
+      expiresAt: '2024-01-01T00:02:00.000Z',
+      previewCount: 42
+    });
+    expect(store.issue(42).confirmationToken).not.toBe(confirmation.confirmationToken);
+  });
+
+  it('cada token vale para uma única limpeza', () => {
+    const store = new ClearConfirmationStore(120_000);
+    const { confirmationToken } = store.issue(1);
+
+    expect(store.consume(confirmationToken)).toBe(true);
+    expect(store.consume(confirmationToken)).toBe(false);
+  });
+
+  it('recusa tokens expirados', () => {
+    const store = new ClearConfirmationStore(120_000);
+    const { confirmationToken } = store.issue(1);
+
+    now += 120_000;
+
+    expect(store.consume(confirmationToken)).toBe(false);
+  });
+
+  it('aceita o token até o vencimento e recusa tokens desconhecidos', () => {
+    const store = new ClearConfirmationStore(120_000);
+    const { confirmationToken } = store.issue(1);
+
+    now += 119_999;
+
+    expect(store.consume('token-desconhecido')).toBe(false);
+    expect(store.consume(confirmationToken)).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+import { randomBytes } from 'crypto';
+import { ClearConfirmation } from '@/types';
+import { config } from '@/config';
+import { TtlCache } from '@/utils/ttlCache';
+
+const CLEAR_CONFIRMATION_MAX_ENTRIES = 100;
+
+/**
+ * Tokens de confirmação da limpeza completa.
+ * A primeira chamada de POST /clear sem escopo emite um token de curta duração; só a segunda,
+ * apresentando o token, remove os dados. Cada token vale para uma única limpeza e fica em memória
+ * (com várias instâncias, a confirmação deve chegar à mesma instância que emitiu o token).
+ */
+export class ClearConfirmationStore {
+  private readonly tokens: TtlCache<string, true>;
+
+  constructor(private readonly ttlMs: number = config.clearConfirmation.ttlMs) {
+    this.tokens = new TtlCache<string, true>(ttlMs, CLEAR_CONFIRMATION_MAX_ENTRIES);
+  }
+
+  /**
+   * Emite um token para confirmar a limpeza completa
+   * @param previewCount - Registros que seriam removidos
+   */
+  public issue(previewCount: number): ClearConfirmation {
+    const confirmationToken = randomBytes(24).toString('base64url');
+    this.tokens.set(confirmationToken, true);
+
+    return {
+      confirmationToken,
+      expiresAt: new Date(Date.now() + this.ttlMs).toISOString(),
+      previewCount
+    };
+  }
+
+  /**
+   * Consome o token: retorna false se for desconhecido, expirado ou já utilizado
+   */
+  public consume(token: string): boolean {
+    if (!this.tokens.get(token)) {
+      return false;
+    }
+
+    this.tokens.delete(token);
+    return true;
+  }
+}
+
+export const clearConfirmations = new ClearConfirmationStore();
@@ -0,0 +1,131 @@
+import { ApiResponse, N8NDeliverySummary, User } from '@/types';
+import { config } from '@/config';
+import { dataFlowService } from '@/services/dataFlow';
+import { dataSource } from '@/services/dataSource';
+import { n8nService } from '@/services/n8nService';
+import { syncStateStore } from '@/services/syncState';
+import { userRepository } from '@/services/userRepository';
+import { toUsers } from '@/utils/users';
+
+const ana = { nome: 'Ana', email: 'ana@email.com', phone: '+5511999999999' };
+const bia = { nome: 'Bia', email: 'bia@email.com', phone: '+5511988888888' };
+const caio = { nome: 'Caio', email: 'caio@email.com', phone: '+5511977777777' };
+
+// Resposta do N8N com todos os lotes aceitos
+const delivered = (count: number, runId = 'run'): ApiResponse<N8NDeliverySummary> => ({
+  success: true,
+  data: {
+    runId,
+    usersCount: count,
+    deliveredUsers: count,
+    totalBatches: 1,
+    succeededBatches: 1,
+    failedBatches: 0,
+    batches: [{ index: 0, usersCount: count, success: true, status: 200 }]
+  }
+});
+
+// A fonte devolve os registros brutos, validados pelo validador da execução
+const sourceReturns = (records: unknown[]): void => {
+  jest.spyOn(dataSource, 'loadUsers').mockImplementation(async validate => toUsers(records, validate));
+};
+
+const storedEmails = async (): Promise<string[]> =>
+  (await userRepository.list()).map(user => user.email).sort();
+
+describe('DataFlowService.execute: sincronização incremental', () => {
+  let sendData: jest.SpyInstance;
+  let sendDelta: jest.SpyInstance;
+
+  beforeEach(async () => {
+    await syncStateStore.reset();
+    await userRepository.removeWhere();
+    sendData = jest.spyOn(n8nService, 'sendDataToN8N').mockImplementation(async users => delivered(users.length));
+    sendDelta = jest.spyOn(n8nService, 'sendDeltaToN8N').mockImplementation(async delta =>
+      delivered(delta.added.length + delta.updated.length + delta.removed.length));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    config.streaming.enabled = false;
+  });
+
+  it('envia a lista completa na primeira execução e só as alterações depois', async () => {
+    sourceReturns([ana, bia]);
+    const first = await dataFlowService.execute({ mode: 'strict' });
+    expect(first.sync).toEqual({ mode: 'full' });
+    expect(sendData).toHaveBeenCalledTimes(1);
+
+    sourceReturns([{ ...ana, nome: 'Ana Maria' }, caio]);
+    const second = await dataFlowService.execute({ mode: 'strict' });
+
+    expect(second.sync).toEqual({ mode: 'incremental', added: 1, updated: 1, removed: 1, unchanged: 0 });
+    expect(sendDelta.mock.calls[0][0]).toMatchObject({
+      added: [expect.objectContaining({ email: 'caio@email.com' })],
+      updated: [expect.objectContaining({ nome: 'Ana Maria' })],
+      removed: ['bia@email.com']
+    });
+  });
+
+  it('aplica as remoções entregues ao N8N também ao repositório local', async () => {
+    sourceReturns([ana, bia]);
+    await dataFlowService.execute({ mode: 'strict' });
+    expect(await storedEmails()).toEqual(['ana@email.com', 'bia@email.com']);
+
+    sourceReturns([ana]);
+    await dataFlowService.execute({ mode: 'strict' });
+
+    expect(await storedEmails()).toEqual(['ana@email.com']);
+  });
+
+  it('no modo lenient, registros rejeitados não contam como removidos', async () => {
+    sourceReturns([ana, bia]);
+    await dataFlowService.execute({ mode: 'lenient' });
+
+    // bia chega com telefone ausente e é rejeitada
+    sourceReturns([ana, { nome: 'Bia', email: 'BIA@email.com' }]);
+    const result = await dataFlowService.execute({ mode: 'lenient' });
+
+    expect(result.validation.rejected).toBe(1);
+    expect(result.sync).toMatchObject({ mode: 'incremental', removed: 0, unchanged: 1 });
+    expect(await storedEmails()).toEqual(['ana@email.com', 'bia@email.com']);
+
+    // Válida de novo e sem alterações: nada a enviar
+    sourceReturns([ana, bia]);
+    const next = await dataFlowService.execute({ mode: 'lenient' });
+    expect(next.sync).toMatchObject({ added: 0, updated: 0, removed: 0, unchanged: 2 });
+  });
+
+  it('não avança o estado quando algum lote falha', async () => {
+    sourceReturns([ana]);
+    await dataFlowService.execute({ mode: 'strict' });
+
+    sendDelta.mockImplementation(async () => ({ ...delivered(1), success: false, error: 'falha' }));
+    sourceReturns([ana, bia]);
+    await dataFlowService.execute({ mode: 'strict' });
+
+    await expect(syncStateStore.diff([ana, bia])).resolves.toMatchObject({ delta: { added: [bia] } });
+  });
+
+  it('em streaming, envia a lista completa sem alterar o estado da sincronização', async () => {
+    sourceReturns([ana, bia]);
+    await dataFlowService.execute({ mode: 'strict' });
+
+    config.streaming.enabled = true;
+    const sendBatch = jest.spyOn(n8nService, 'sendBatch').mockImplementation(async (users, runId, index) =>
+      ({ index, usersCount: users.length, success: true, status: 200 }));
+    jest.spyOn(dataSource, 'streamUsers').mockImplementation(async (onBatch, batchSize, validate) => {
+      const users = toUsers([caio], validate) as User[];
+      await onBatch(users, 0);
+      return { usersCount: users.length, batches: 1 };
+    });
+
+    const result = await dataFlowService.execute({ mode: 'strict' });
+
+    expect(result.processing).toBe('stream');
+    expect(result.sync).toEqual({ mode: 'full' });
+    expect(sendBatch).toHaveBeenCalledTimes(1);
+    // O estado continua o da última execução bufferizada
+    await expect(syncStateStore.diff([ana, bia])).resolves.toMatchObject({ unchanged: 2 });
+  });
+});
@@ -0,0 +1,523 @@
+import { randomUUID } from 'crypto';
+import {
+  ClearScope,
+  DataFlowContext,
+  DataFlowHooks,
+  DataFlowPreview,
+  DataFlowResult,
+  DataFlowStage,
+  DecryptionPath,
+  ExecuteOptions,
+  ImportFormat,
+  ImportResult,
+  N8NBatchResult,
+  N8NDeliverySummary,
+  N8NProcessPayload,
+  N8NSyncPayload,
+  PreviewOptions,
+  RunOutcome,
+  RunRecord,
+  SyncDelta,
+  SyncSummary,
+  User
+} from '@/types';
+import { config } from '@/config';
+import { CustomError, OperationCancelledError } from '@/middleware/errorHandler';
+import { dataSource } from '@/services/dataSource';
+import { n8nService } from '@/services/n8nService';
+import { RecordValidationSession } from '@/services/recordValidator';
+import { readCache } from '@/services/readCache';
+import { runHistory } from '@/services/runHistory';
+import { runStatusStore } from '@/services/runStatusStore';
+import { UserNormalizationSession } from '@/services/userNormalizer';
+import { userRepository } from '@/services/userRepository';
+import { chunkDelta, deltaSize, fingerprintUsers, syncStateStore } from '@/services/syncState';
+import { throwIfCancelled } from '@/utils/cancellation';
+import { chunk } from '@/utils/concurrency';
+import { maskPii, maskUser } from '@/utils/mask';
+import { extractRecords } from '@/utils/records';
+import { logger } from '@/utils/logger';
+
+// 503 quando todas as falhas indicam N8N indisponível (inclusive circuito aberto); 500 nos demais casos
+const deliveryFailureStatus = (batches: N8NBatchResult[]): number =>
+  batches.filter(batch => !batch.success).every(batch => batch.status === 503) ? 503 : 500;
+
+// Status do N8N mais relevante do envio: o do primeiro lote com falha ou, sem falhas, o do primeiro lote
+const n8nStatusOf = (batches: N8NBatchResult[]): number | undefined =>
+  (batches.find(batch => !batch.success) ?? batches[0])?.status;
+
+// Cópia do corpo de um lote com os dados pessoais mascarados (emails removidos também)
+const maskPayload = (payload: N8NProcessPayload | N8NSyncPayload): N8NProcessPayload | N8NSyncPayload =>
+  payload.action === 'process'
+    ? { ...payload, users: payload.users.map(maskUser) }
+    : {
+      ...payload,
+      added: payload.added.map(maskUser),
+      updated: payload.updated.map(maskUser),
+      removed: payload.removed.map(email => maskPii('email', email))
+    };
+
+// Grava os usuários no repositório local (upsert por email) e os devolve com o id local, enviado ao N8N
+const writeThrough = async (users: User[]): Promise<User[]> =>
+  (await userRepository.upsertMany(users)).map(({ id, nome, email, phone }) => ({ id, nome, email, phone }));
+
+// Dados acumulados durante a execução, registrados no histórico mesmo em caso de falha
+interface RunProgress {
+  usersCount?: number;
+  deliveredUsers?: number;
+  rejected?: number;
+  decryptionPath?: DecryptionPath;
+  n8nStatusCode?: number;
+}
+
+/**
+ * Pipeline de execução: busca na fonte de dados, descriptografa, valida e envia ao N8N.
+ * Compartilhado pela rota síncrona e pelos jobs assíncronos; cada execução é registrada no histórico.
+ */
+export class DataFlowService {
+  /**
+   * Executa o fluxo completo
+   * @param options - Opções de execução (modo de validação)
+   * @param context - runId, origem do disparo, notificação de etapas e cancelamento
+   */
+  public async execute(options: ExecuteOptions, context: DataFlowContext = {}): Promise<DataFlowResult> {
+    const runId = context.runId ?? randomUUID();
+    const startedAt = new Date();
+    const progress: RunProgress = {};
+
+    const hooks: DataFlowHooks = {
+      ...context,
+      onDecryptionPath: path => {
+        progress.decryptionPath = path;
+        context.onDecryptionPath?.(path);
+      }
+    };
+
+    logger.info('Iniciando fluxo de execução de dados', {
+      runId,
+      source: dataSource.name,
+      mode: options.mode,
+      trigger: context.trigger ?? 'api'
+    });
+
+    try {
+      const result = config.streaming.enabled && dataSource.streamUsers
+        ? await this.executeStreaming(options, hooks, runId, progress)
+        : await this.executeBuffered(options, hooks, runId, progress);
+
+      readCache.invalidate();
+      await this.recordRun(runId, 'execute', context, startedAt, result.partial ? 'partial' : 'succeeded', progress);
+      return result;
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+      const status: RunOutcome = error instanceof OperationCancelledError ? 'cancelled' : 'failed';
+
+      await this.recordRun(runId, 'execute', context, startedAt, status, progress, errorMessage);
+      throw error;
+    }
+  }
+
+  /**
+   * Conta os registros salvos pelo webhook de leitura, para a prévia da limpeza completa
+   */
+  public async countStoredRecords(): Promise<number> {
+    const records = extractRecords(await n8nService.fetchDataFromExternalWebhook());
+    if (!records) {
+      throw new CustomError('Resposta do webhook de leitura em formato não reconhecido', 502);
+    }
+    return records.length;
+  }
+
+  /**
+   * Solicita a limpeza dos dados no N8N
+   * @param scope - Emails ou data de corte; sem escopo, limpeza completa
+   */
+  public async clear(scope?: ClearScope, context: DataFlowContext = {}): Promise<void> {
+    const runId = context.runId ?? randomUUID();
+    const startedAt = new Date();
+
+    logger.info('Iniciando limpeza de dados', { runId, trigger: context.trigger ?? 'api', scoped: !!scope });
+
+    const n8nResponse = await n8nService.clearDataInN8N(scope).catch(async (error: unknown) => {
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+      await this.recordRun(runId, 'clear', context, startedAt, 'failed', {}, errorMessage);
+      throw error;
+    });
+
+    const progress: RunProgress = { n8nStatusCode: n8nResponse.meta?.n8nStatusCode as number | undefined };
+
+    if (!n8nResponse.success) {
+      const errorMessage = n8nResponse.error || 'Erro ao limpar dados no N8N';
+      await this.recordRun(runId, 'clear', context, startedAt, 'failed', progress, errorMessage);
+      throw new CustomError(errorMessage, 500);
+    }
+
+    // Com os dados removidos no N8N (mesmo parcialmente), a próxima execução deve enviar a lista completa
+    await syncStateStore.reset();
+    const removedLocally = await userRepository.removeWhere(scope);
+
+    readCache.invalidate();
+    await this.recordRun(runId, 'clear', context, startedAt, 'succeeded', progress);
+    logger.info('Limpeza de dados concluída com sucesso', { runId, removedLocally });
+  }
+
+  /**
+   * Importação direta: envia ao N8N usuários recebidos pela API (JSON, NDJSON ou CSV já validados),
+   * com a mesma normalização, gravação no repositório local e envio em lotes do execute. Não altera o estado da
+   * sincronização incremental, que acompanha apenas a fonte de dados configurada.
+   */
+  public async importUsers(users: User[], format: ImportFormat, context: DataFlowContext = {}): Promise<ImportResult> {
+    const runId = context.runId ?? randomUUID();
+    const startedAt = new Date();
+    const normalization = new UserNormalizationSession();
+    const progress: RunProgress = {};
+
+    logger.info('Iniciando importação de usuários', { runId, format, usersCount: users.length });
+
+    try {
+      const normalized = await writeThrough(normalization.process(users));
+      progress.usersCount = normalized.length;
+
+      await runStatusStore.register(runId, 'import', normalized.length);
+      const n8nResponse = await n8nService.sendDataToN8N(normalized, runId, context.signal);
+      const delivery = n8nResponse.data!;
+      await runStatusStore.setExpectedCallbacks(runId, normalized.length, delivery.succeededBatches);
+      progress.deliveredUsers = delivery.deliveredUsers;
+      progress.n8nStatusCode = n8nStatusOf(delivery.batches);
+
+      if (!n8nResponse.success && delivery.succeededBatches === 0) {
+        throw new CustomError(
+          n8nResponse.error || 'Erro ao processar dados no N8N',
+          deliveryFailureStatus(delivery.batches)
+        );
+      }
+
+      const partial = delivery.failedBatches > 0;
+      readCache.invalidate();
+      await this.recordRun(runId, 'import', context, startedAt, partial ? 'partial' : 'succeeded', progress);
+
+      logger.info('Importação de usuários concluída', {
+        runId,
+        format,
+        usersCount: normalized.length,
+        deliveredUsers: delivery.deliveredUsers,
+        failedBatches: delivery.failedBatches,
+        mergedCount: normalization.getReport().merged
+      });
+
+      return {
+        runId,
+        format,
+        usersCount: normalized.length,
+        deliveredUsers: delivery.deliveredUsers,
+        delivery,
+        normalization: normalization.getReport(),
+        partial
+      };
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+      await this.recordRun(runId, 'import', context, startedAt, 'failed', progress, errorMessage);
+      throw error;
+    }
+  }
+
+  /**
+   * Dry-run: busca, descriptografa e valida como no execute e monta os lotes que seriam
+   * enviados ao N8N, sem chamar o webhook nem registrar a execução no histórico
+   */
+  public async preview(options: ExecuteOptions, preview: PreviewOptions): Promise<DataFlowPreview> {
+    const startedAt = Date.now();
+    const stageStarts: Partial<Record<DataFlowStage, number>> = {};
+    const validation = new RecordValidationSession(options.mode);
+    const normalization = new UserNormalizationSession();
+
+    // Mesmo com streaming habilitado, o dry-run carrega tudo em memória para paginar
+    const users = normalization.process(await dataSource.loadUsers(validation.validate, {
+      onStage: stage => { stageStarts[stage] = Date.now(); }
+    }));
+    const loadedAt = Date.now();
+
+    const { size } = config.n8nBatch;
+    const plan = await this.planSync(users, options, validation.getRejectedEmails());
+    const runId = randomUUID();
+
+    let payloads: Array<N8NProcessPayload | N8NSyncPayload>;
+    let batchSizes: number[];
+
+    if (plan.delta) {
+      const batches = chunkDelta(plan.delta, size);
+      payloads = batches.map((batch, index) => n8nService.buildSyncPayload(batch, runId, index, batches.length));
+      batchSizes = batches.map(deltaSize);
+    } else {
+      const batches = chunk(users, size);
+      payloads = batches.map((batch, index) => n8nService.buildProcessPayload(batch, runId, index, batches.length));
+      batchSizes = batches.map(batch => batch.length);
+    }
+
+    const batchBytes = payloads.map(payload => Buffer.byteLength(JSON.stringify(payload)));
+    const payloadAt = Date.now();
+
+    const start = (preview.page - 1) * preview.pageSize;
+    const pageUsers = users.slice(start, start + preview.pageSize);
+    const sample = payloads[0];
+
+    const fetchingStart = stageStarts.fetching ?? startedAt;
+    const decryptingStart = stageStarts.decrypting ?? loadedAt;
+
+    logger.info('Dry-run do fluxo de execução concluído', {
+      source: dataSource.name,
+      usersCount: users.length,
+      batches: payloads.length,
+      sync: plan.summary.mode,
+      rejectedCount: validation.getReport().rejected
+    });
+
+    return {
+      source: dataSource.name,
+      users: preview.maskPii ? pageUsers.map(maskUser) : pageUsers,
+      page: preview.page,
+      pageSize: preview.pageSize,
+      totalPages: Math.ceil(users.length / preview.pageSize),
+      validation: validation.getReport(),
+      normalization: normalization.getReport(),
+      sync: plan.summary,
+      payload: {
+        totalBatches: payloads.length,
+        batchSize: size,
+        batches: batchBytes.map((bytes, index) => ({ index, usersCount: batchSizes[index], bytes })),
+        ...(sample && { sample: preview.maskPii ? maskPayload(sample) : sample })
+      },
+      stats: {
+        usersCount: users.length,
+        payloadBytes: batchBytes.reduce((total, bytes) => total + bytes, 0),
+        timings: {
+          fetchingMs: decryptingStart - fetchingStart,
+          decryptingMs: loadedAt - decryptingStart,
+          payloadMs: payloadAt - loadedAt,
+          totalMs: payloadAt - startedAt
+        }
+      }
+    };
+  }
+
+  private async executeBuffered(
+    options: ExecuteOptions,
+    hooks: DataFlowHooks,
+    runId: string,
+    progress: RunProgress
+  ): Promise<DataFlowResult> {
+    const validation = new RecordValidationSession(options.mode);
+    const normalization = new UserNormalizationSession();
+
+    // 1. Obter usuários da fonte de dados configurada, normalizados, sem emails duplicados
+    // e gravados no repositório local
+    const loaded = normalization.process(await dataSource.loadUsers(validation.validate, hooks));
+    const users = await writeThrough(loaded);
+    const report = validation.getReport();
+    progress.usersCount = users.length;
+    progress.rejected = report.rejected;
+    throwIfCancelled(hooks.signal);
+
+    // 2. Enviar ao N8N em lotes (no modo lenient, apenas os válidos): somente as alterações
+    // desde a última sincronização ou, sem estado anterior ou com full, a lista completa
+    const plan = await this.planSync(users, options, validation.getRejectedEmails());
+    const changes = plan.delta ? deltaSize(plan.delta) : users.length;
+    let delivery: N8NDeliverySummary | undefined;
+
+    if (changes > 0) {
+      hooks.onStage?.('sending');
+      await runStatusStore.register(runId, dataSource.name, changes);
+
+      const n8nResponse = plan.delta
+        ? await n8nService.sendDeltaToN8N(plan.delta, runId, hooks.signal)
+        : await n8nService.sendDataToN8N(users, runId, hooks.signal);
+      delivery = n8nResponse.data!;
+      await runStatusStore.setExpectedCallbacks(runId, changes, delivery.succeededBatches);
+      progress.deliveredUsers = delivery.deliveredUsers;
+      progress.n8nStatusCode = n8nStatusOf(delivery.batches);
+
+      // O estado só avança com todos os lotes aceitos; senão as alterações são reenviadas na próxima execução.
+      // As remoções aceitas pelo N8N são aplicadas também ao repositório local.
+      if (n8nResponse.success) {
+        await syncStateStore.commit(fingerprintUsers(users), validation.getRejectedEmails());
+        if (plan.delta?.removed.length) {
+          await userRepository.removeWhere({ emails: plan.delta.removed });
+        }
+      }
+      throwIfCancelled(hooks.signal);
+
+      if (!n8nResponse.success && delivery.succeededBatches === 0) {
+        throw new CustomError(
+          n8nResponse.error || 'Erro ao processar dados no N8N',
+          deliveryFailureStatus(delivery.batches)
+        );
+      }
+    } else if (plan.delta) {
+      logger.info('Nenhuma alteração desde a última sincronização', { runId, unchanged: plan.summary.unchanged });
+    } else {
+      logger.warn('Nenhum usuário válido para enviar ao N8N', { runId, rejected: report.rejected });
+    }
+
+    const result: DataFlowResult = {
+      runId,
+      source: dataSource.name,
+      processing: 'buffer',
+      users,
+      usersCount: users.length,
+      deliveredUsers: delivery?.deliveredUsers ?? 0,
+      delivery,
+      validation: report,
+      normalization: normalization.getReport(),
+      partial: delivery !== undefined && delivery.failedBatches > 0,
+      sync: plan.summary,
+      decryptionPath: progress.decryptionPath,
+      n8nStatusCode: progress.n8nStatusCode
+    };
+
+    logger.info('Fluxo de execução concluído', {
+      runId,
+      usersCount: result.usersCount,
+      deliveredUsers: result.deliveredUsers,
+      failedBatches: delivery?.failedBatches ?? 0,
+      sync: plan.summary,
+      mergedCount: result.normalization.merged,
+      rewrittenCount: result.normalization.rewritten,
+      rejectedCount: report.rejected,
+      source: dataSource.name
+    });
+
+    return result;
+  }
+
+  /**
+   * Fluxo em streaming: cada lote descriptografado é enviado ao N8N sem acumular todos os usuários
+   */
+  private async executeStreaming(
+    options: ExecuteOptions,
+    hooks: DataFlowHooks,
+    runId: string,
+    progress: RunProgress
+  ): Promise<DataFlowResult> {
+    const validation = new RecordValidationSession(options.mode);
+    const normalization = new UserNormalizationSession();
+    let deliveredUsers = 0;
+    let deliveredBatches = 0;
+    await runStatusStore.register(runId, dataSource.name, 0);
+
+    // O total de lotes só é conhecido ao fim do stream, por isso não é enviado ao N8N.
+    // Sem a lista completa em memória não há cálculo de alterações: o envio é sempre completo
+    // e o estado da sincronização incremental não é alterado (as remoções ficam para a próxima
+    // execução bufferizada, que compara com o último estado sincronizado).
+    const stream = await dataSource.streamUsers!(async (batchUsers, batchIndex) => {
+      throwIfCancelled(hooks.signal);
+
+      const users = await writeThrough(normalization.process(batchUsers));
+      if (users.length === 0) {
+        return;
+      }
+      hooks.onStage?.('sending');
+
+      const batch = await n8nService.sendBatch(users, runId, batchIndex);
+      progress.n8nStatusCode = batch.status;
+
+      if (!batch.success) {
+        throw new CustomError(
+          `Lote ${batchIndex + 1}: ${batch.error || 'Erro ao processar dados no N8N'}`,
+          deliveryFailureStatus([batch])
+        );
+      }
+
+      deliveredUsers += users.length;
+      deliveredBatches++;
+    }, config.streaming.batchSize, validation.validate, hooks).finally(async () => {
+      // Mesmo com falha no meio do stream, os lotes já entregues geram callbacks
+      await runStatusStore.setExpectedCallbacks(runId, deliveredUsers, deliveredBatches);
+
+      const report = validation.getReport();
+      progress.usersCount = report.accepted;
+      progress.rejected = report.rejected;
+      progress.deliveredUsers = deliveredUsers;
+    });
+
+    logger.info('Fluxo de execução em streaming concluído com sucesso', {
+      runId,
+      ...stream,
+      rejectedCount: validation.getReport().rejected,
+      source: dataSource.name
+    });
+
+    return {
+      runId,
+      source: dataSource.name,
+      processing: 'stream',
+      users: [],
+      usersCount: stream.usersCount,
+      deliveredUsers,
+      stream,
+      validation: validation.getReport(),
+      normalization: normalization.getReport(),
+      partial: false,
+      sync: { mode: 'full' },
+      decryptionPath: progress.decryptionPath,
+      n8nStatusCode: progress.n8nStatusCode
+    };
+  }
+
+  /**
+   * Define o envio ao N8N: apenas as alterações em relação à última sincronização ou,
+   * sem sincronização anterior ou com a opção full, a lista completa
+   */
+  private async planSync(
+    users: User[],
+    options: ExecuteOptions,
+    retained: ReadonlySet<string>
+  ): Promise<{ summary: SyncSummary; delta?: SyncDelta }> {
+    const diff = options.full ? undefined : await syncStateStore.diff(users, retained);
+
+    if (!diff) {
+      return { summary: { mode: 'full' } };
+    }
+
+    return {
+      delta: diff.delta,
+      summary: {
+        mode: 'incremental',
+        added: diff.delta.added.length,
+        updated: diff.delta.updated.length,
+        removed: diff.delta.removed.length,
+        unchanged: diff.unchanged
+      }
+    };
+  }
+
+  private recordRun(
+    id: string,
+    operation: RunRecord['operation'],
+    context: DataFlowContext,
+    startedAt: Date,
+    status: RunOutcome,
+    progress: RunProgress,
+    error?: string
+  ): Promise<void> {
+    const finishedAt = new Date();
+
+    return runHistory.record({
+      id,
+      operation,
+      trigger: context.trigger ?? 'api',
+      status,
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      ...(context.jobId && { jobId: context.jobId }),
+      ...(context.scheduleId && { scheduleId: context.scheduleId }),
+      ...(operation === 'execute' && { source: dataSource.name }),
+      ...progress,
+      ...(error && { error })
+    });
+  }
+}
+
+export const dataFlowService = new DataFlowService();
@@ -0,0 +1,107 @@
+import fs from 'fs/promises';
+import {
+  DataFlowHooks,
+  DataSource,
+  DataSourceConfig,
+  RecordValidator,
+  StreamProcessingResult,
+  User,
+  UserBatchHandler
+} from '@/types';
+import { config } from '@/config';
+import { CustomError } from '@/middleware/errorHandler';
+import { encryptionService } from '@/services/encryptionService';
+import { n8nService } from '@/services/n8nService';
+import { throwIfCancelled } from '@/utils/cancellation';
+import { logger } from '@/utils/logger';
+import { toUsers } from '@/utils/users';
+
+/**
+ * Fonte real: busca o envelope criptografado no endpoint externo e o descriptografa
+ */
+export class EncryptedUpstreamDataSource implements DataSource {
+  public readonly name = 'encrypted-upstream' as const;
+
+  public async loadUsers(validate?: RecordValidator, hooks?: DataFlowHooks): Promise<User[]> {
+    // 1. Buscar dados criptografados do endpoint externo
+    hooks?.onStage?.('fetching');
+    const encryptedData = await n8nService.fetchEncryptedData();
+
+    // 2. Validar estrutura dos dados criptografados
+    if (!encryptionService.validateEncryptedData(encryptedData)) {
+      throw new CustomError('Dados criptografados inválidos', 400);
+    }
+
+    // 3. Descriptografar dados
+    throwIfCancelled(hooks?.signal);
+    hooks?.onStage?.('decrypting');
+    return encryptionService.processEncryptedData(encryptedData, validate, hooks);
+  }
+
+  /**
+   * Processa o endpoint em streaming, entregando usuários em lotes com memória limitada
+   */
+  public async streamUsers(
+    onBatch: UserBatchHandler,
+    batchSize: number,
+    validate?: RecordValidator,
+    hooks?: DataFlowHooks
+  ): Promise<StreamProcessingResult> {
+    hooks?.onStage?.('fetching');
+    const { stream, envelope } = await n8nService.fetchEncryptedDataStream();
+
+    if (!encryptionService.validateStreamEnvelope(envelope)) {
+      stream.destroy();
+      throw new CustomError('Metadados do envelope criptografado inválidos', 400);
+    }
+
+    // Descriptografia e envio se alternam a cada lote
+    hooks?.onStage?.('decrypting');
+    hooks?.onDecryptionPath?.('streams');
+    return encryptionService.streamEncryptedUsers(stream, envelope, onBatch, batchSize, validate);
+  }
+}
+
+/**
+ * Fonte de demonstração: lê usuários de um arquivo JSON local.
+ * Habilitada apenas explicitamente via DATA_SOURCE=fixture.
+ */
+export class FixtureDataSource implements DataSource {
+  public readonly name = 'fixture' as const;
+
+  constructor(private readonly filePath: string) {}
+
+  public async loadUsers(validate?: RecordValidator, hooks?: DataFlowHooks): Promise<User[]> {
+    logger.warn('Usando fonte de dados fixture', { file: this.filePath });
+    hooks?.onStage?.('fetching');
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+      throw new CustomError(`Arquivo de fixture não pôde ser lido: ${errorMessage}`, 500);
+    }
+
+    let parsedData: unknown;
+    try {
+      parsedData = JSON.parse(content);
+    } catch (error: unknown) {
+      throw new CustomError('Arquivo de fixture não é um JSON válido', 500);
+    }
+
+    return toUsers(parsedData, validate);
+  }
+}
+
+/**
+ * Cria a fonte de dados conforme a configuração
+ */
+export const createDataSource = (dataSourceConfig: DataSourceConfig): DataSource => {
+  if (dataSourceConfig.type === 'fixture') {
+    return new FixtureDataSource(dataSourceConfig.fixtureFile!);
+  }
+  return new EncryptedUpstreamDataSource();
+};
+
+export const dataSource = createDataSource(config.dataSource);
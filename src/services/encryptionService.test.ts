@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import { Readable } from 'stream';
+import { EncryptedData, User } from '@/types';
+import { EncryptionService } from '@/services/encryptionService';
+import { RecordValidationSession } from '@/services/recordValidator';
+import { StaticKeyProvider } from '@/services/keyProvider';
+
+const KEY = crypto.randomBytes(32).toString('hex');
+const MAC_KEY = crypto.randomBytes(32).toString('hex');
+
+const users: User[] = [
+  { nome: 'Ana', email: 'ana@email.com', phone: '11999999999' },
+  { nome: 'Bruno', email: 'bruno@email.com', phone: '11988888888' }
+];
+
+const createService = (loadMacKey: () => string | undefined = () => MAC_KEY): EncryptionService =>
+  new EncryptionService(() => new StaticKeyProvider('env', () => KEY), loadMacKey);
+
+// Inverte o último byte de um campo em hex
+const flipLastByte = (hex: string): string =>
+  hex.slice(0, -2) + (parseInt(hex.slice(-2), 16) ^ 0xff).toString(16).padStart(2, '0');
+
+describe('EncryptionService', () => {
+  const service = createService();
+
+  it.each(['aes-256-gcm', 'chacha20-poly1305', 'aes-256-cbc-hmac-sha256'])(
+    'descriptografa o envelope gerado por encrypt com %s',
+    async algorithm => {
+      const envelope = await service.encrypt(users, algorithm);
+
+      expect(envelope.algorithm).toBe(algorithm);
+      expect(service.validateEncryptedData(envelope)).toBe(true);
+      await expect(service.processEncryptedData(envelope)).resolves.toEqual(users);
+    }
+  );
+
+  it('interopera com AES-256-CBC + HMAC-SHA256 padrão, com chaves de cifra e MAC separadas', async () => {
+    // Envelope gerado como um parceiro faria, sem derivação de chaves
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv('aes-256-cbc', Buffer.from(KEY, 'hex'), iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(users)), cipher.final()]);
+    const authTag = crypto.createHmac('sha256', Buffer.from(MAC_KEY, 'hex')).update(iv).update(ciphertext).digest();
+
+    await expect(service.processEncryptedData({
+      encryptedData: ciphertext.toString('hex'),
+      iv: iv.toString('hex'),
+      authTag: authTag.toString('hex'),
+      algorithm: 'aes-256-cbc-hmac-sha256'
+    })).resolves.toEqual(users);
+  });
+
+  it('recusa aes-256-cbc-hmac-sha256 sem ENCRYPTION_MAC_KEY', async () => {
+    await expect(createService(() => undefined).encrypt(users, 'aes-256-cbc-hmac-sha256'))
+      .rejects.toThrow('requer ENCRYPTION_MAC_KEY');
+  });
+
+  it('recusa envelopes com texto cifrado ou auth tag adulterados', async () => {
+    const envelope = await service.encrypt(users);
+
+    await expect(service.processEncryptedData({ ...envelope, encryptedData: flipLastByte(envelope.encryptedData) }))
+      .rejects.toThrow('Falha na descriptografia');
+    await expect(service.processEncryptedData({ ...envelope, authTag: flipLastByte(envelope.authTag) }))
+      .rejects.toThrow('Falha na descriptografia');
+  });
+
+  it('recusa envelopes que indicam um kid sem chave correspondente', async () => {
+    const envelope = await service.encrypt(users);
+
+    await expect(service.processEncryptedData({ ...envelope, kid: 'k9' }))
+      .rejects.toThrow('Chave de criptografia desconhecida');
+  });
+
+  it('valida a estrutura e os tamanhos de IV e auth tag do envelope', async () => {
+    const envelope = await service.encrypt(users);
+    const incomplete: Partial<EncryptedData> = { ...envelope, authTag: undefined };
+
+    expect(service.validateEncryptedData(incomplete)).toBe(false);
+    expect(service.validateEncryptedData({ ...envelope, iv: envelope.iv.slice(2) })).toBe(false);
+    expect(service.validateEncryptedData('texto qualquer')).toBe(false);
+    expect(service.validateEncryptedData(null)).toBe(false);
+  });
+});
+
+describe('EncryptionService.streamEncryptedUsers', () => {
+  const service = createService();
+  const manyUsers: User[] = Array.from({ length: 25 }, (_, i) => ({
+    nome: `Usuário ${i}`,
+    email: `usuario${i}@email.com`,
+    phone: '11999999999'
+  }));
+
+  // Corpo hex em pedaços pequenos, como chegaria pela rede
+  const hexStream = (hex: string): Readable => Readable.from(hex.match(/.{1,64}/g)!);
+
+  const spoolFiles = (): string[] =>
+    fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('encrypted-stream-'));
+
+  it('entrega os usuários em lotes após autenticar o stream inteiro', async () => {
+    const { encryptedData, ...envelope } = await service.encrypt(manyUsers);
+    const batches: User[][] = [];
+
+    const result = await service.streamEncryptedUsers(hexStream(encryptedData), envelope, async batch => {
+      batches.push(batch);
+    }, 10);
+
+    expect(batches.map(batch => batch.length)).toEqual([10, 10, 5]);
+    expect(batches.flat()).toEqual(manyUsers);
+    expect(result).toEqual({ usersCount: 25, batches: 3 });
+  });
+
+  it('valida registros null como o modo bufferizado', async () => {
+    // encrypt só serializa o array: um elemento null chega como veio do emissor
+    const envelope = await service.encrypt([users[0], null, users[1]] as unknown as User[]);
+    const { encryptedData, ...streamEnvelope } = envelope;
+    const buffered = new RecordValidationSession('lenient');
+    const streamed = new RecordValidationSession('lenient');
+    const batches: User[][] = [];
+
+    await expect(service.processEncryptedData(envelope, buffered.validate)).resolves.toEqual(users);
+    await service.streamEncryptedUsers(hexStream(encryptedData), streamEnvelope, async batch => {
+      batches.push(batch);
+    }, 10, streamed.validate);
+
+    expect(batches).toEqual([users]);
+    expect(streamed.getReport()).toEqual(buffered.getReport());
+    expect(streamed.getReport()).toMatchObject({ accepted: 2, rejected: 1 });
+  });
+
+  it('não entrega nenhum lote quando a auth tag não confere', async () => {
+    const spooledBefore = spoolFiles();
+    const { encryptedData, ...envelope } = await service.encrypt(manyUsers);
+    const onBatch = jest.fn(async () => undefined);
+
+    await expect(service.streamEncryptedUsers(
+      hexStream(encryptedData),
+      { ...envelope, authTag: flipLastByte(envelope.authTag) },
+      onBatch,
+      10
+    )).rejects.toThrow();
+
+    expect(onBatch).not.toHaveBeenCalled();
+    expect(spoolFiles()).toEqual(spooledBefore);
+  });
+});
@@ -1,77 +1,172 @@
-import crypto from 'crypto';
-import { EncryptedData, User } from '@/types';
+import crypto, { randomUUID } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  CipherSuite,
+  DataFlowHooks,
+  DecryptTask,
+  EncryptedData,
+  EncryptedStreamEnvelope,
+  KeyProvider,
+  RecordValidator,
+  StreamProcessingResult,
+  User,
+  UserBatchHandler
+} from '@/types';
+import { config } from '@/config';
+import { CustomError, UnknownKeyError } from '@/middleware/errorHandler';
+import { DEFAULT_ALGORITHM, getCipherSuite, listAvailableAlgorithms } from '@/services/cipherSuites';
+import { decryptJweContent, isJweCompact, openJweCompact, parseJweHeader } from '@/services/jwe';
+import { keyDerivationService } from '@/services/keyDerivation';
+import { getKeyProvider, parseKey } from '@/services/keyProvider';
+import { decryptWorkerPool } from '@/services/workerPool';
 import { logger } from '@/utils/logger';
+import { createDiscardSink, FileTeeTransform, HexDecodeTransform, JsonArrayElement, JsonArrayParser } from '@/utils/streams';
+import { toUser, toUsers } from '@/utils/users';
 
 export class EncryptionService {
-  private readonly algorithm = 'aes-256-gcm';
+  private readonly defaultAlgorithm = DEFAULT_ALGORITHM;
   private readonly threshold = 1024 * 1024; // 1MB threshold para escolher entre Buffer e Streams
 
+  constructor(
+    private readonly keyProviderFactory: () => KeyProvider = getKeyProvider,
+    private readonly loadMacKey: () => string | undefined = () => config.encryption.macKey
+  ) {}
+
   /**
-   * Descriptografa dados usando AES-256-GCM
-   * @param encryptedData - Dados criptografados
-   * @param iv - Vetor de inicialização (base64)
-   * @param authTag - Tag de autenticação (base64)
-   * @returns Dados descriptografados como string
+   * Obtém a chave referenciada pelo envelope (kid) no provedor de chaves configurado
    */
-  private decrypt(encryptedData: string, iv: string, authTag: string): string {
-    try {
-      // Converter hexadecimal para Buffer (os dados vêm em hex do endpoint)
-      const ivBuffer = Buffer.from(iv, 'hex');
-      const encryptedBuffer = Buffer.from(encryptedData, 'hex');
-      const authTagBuffer = Buffer.from(authTag, 'hex');
+  private resolveKey(kid?: string): Promise<Buffer> {
+    return this.keyProviderFactory().getKey(kid);
+  }
 
-      // Criar uma chave derivada usando PBKDF2 com uma senha padrão
-      // Em produção, você deve usar a chave real fornecida pelo endpoint
-      const password = 'default-password-for-demo';
-      const salt = Buffer.from('default-salt-for-demo', 'utf8');
-      const keyBuffer = crypto.pbkdf2Sync(password, salt, 100000, 32, 'sha256');
+  /**
+   * Monta a chave da suíte: nas suítes encrypt-then-MAC, MAC_KEY (ENCRYPTION_MAC_KEY) || chave de cifra
+   */
+  private suiteKey(suite: CipherSuite, key: Buffer): Buffer {
+    if (!suite.requiresMacKey) {
+      return key;
+    }
+
+    const macKey = this.loadMacKey();
+    if (!macKey) {
+      throw new CustomError(`Algoritmo ${suite.name} requer ENCRYPTION_MAC_KEY configurada`, 400);
+    }
+    return Buffer.concat([parseKey(macKey), key]);
+  }
 
-      // Criar decipher
-      const decipher = crypto.createDecipheriv(this.algorithm, keyBuffer, ivBuffer);
-      decipher.setAuthTag(authTagBuffer);
+  /**
+   * Criptografa usuários gerando um envelope aceito por processEncryptedData
+   * @param users - Array de usuários
+   * @param algorithm - Algoritmo da suíte de cifra (padrão aes-256-gcm)
+   * @returns Envelope com encryptedData, iv e authTag em hex, e o kid da chave ativa
+   */
+  public async encrypt(users: User[], algorithm: string = this.defaultAlgorithm): Promise<EncryptedData> {
+    try {
+      const suite = getCipherSuite(algorithm);
+      const keyProvider = this.keyProviderFactory();
+      const kid = keyProvider.getActiveKeyId();
+      const keyBuffer = this.suiteKey(suite, await keyProvider.getKey(kid));
+      const ivBuffer = crypto.randomBytes(suite.ivLength);
+
+      const { ciphertext, authTag } = suite.encrypt(keyBuffer, ivBuffer, Buffer.from(JSON.stringify(users), 'utf8'));
+
+      logger.debug('Dados criptografados com sucesso', { usersCount: users.length, kid, algorithm: suite.name });
+
+      return {
+        encryptedData: ciphertext.toString('hex'),
+        iv: ivBuffer.toString('hex'),
+        authTag: authTag.toString('hex'),
+        ...(kid && { kid }),
+        algorithm: suite.name
+      };
+    } catch (error: unknown) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+      logger.error('Erro ao criptografar dados', { error: errorMessage });
+      throw new Error('Falha na criptografia dos dados');
+    }
+  }
 
-      // Descriptografar
-      let decrypted = decipher.update(encryptedBuffer, undefined, 'utf8');
-      decrypted += decipher.final('utf8');
+  /**
+   * Descriptografa um token JWE compacto. A chave é obtida no processo principal; o payload
+   * é decifrado em uma worker thread quando grande, como nos envelopes (decryptHybrid).
+   * @param token - Token JWE (alg dir ou A256KW, enc A256GCM)
+   * @returns Payload descriptografado como string
+   */
+  private async decryptJwe(token: string, hooks?: DataFlowHooks): Promise<string> {
+    try {
+      const content = await openJweCompact(token, kid => this.resolveKey(kid));
+      const dataSize = content.ciphertext.length;
+      let decrypted: string;
+
+      if (dataSize >= this.threshold && decryptWorkerPool.enabled) {
+        logger.debug(`🧵 Usando Worker para JWE grande (${dataSize} bytes)`);
+        hooks?.onDecryptionPath?.('worker');
+        const task: DecryptTask = { kind: 'jwe', ...content };
+        decrypted = await decryptWorkerPool.run<string>(task);
+      } else {
+        hooks?.onDecryptionPath?.('buffer');
+        decrypted = decryptJweContent(content).toString('utf8');
+      }
 
-      logger.debug('Dados descriptografados com sucesso');
+      logger.debug('JWE descriptografado com sucesso');
       return decrypted;
     } catch (error: unknown) {
+      if (error instanceof CustomError) {
+        throw error;
+      }
       const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
-      logger.error('Erro ao descriptografar dados', { error: errorMessage });
-      throw new Error(`Falha na descriptografia dos dados + ${errorMessage}`);
+      logger.error('Erro ao descriptografar JWE', { error: errorMessage });
+      throw new Error('Falha na descriptografia dos dados');
     }
   }
 
   /**
    * Processa dados criptografados e retorna array de usuários
-   * @param encryptedData - Objeto com dados criptografados
+   * @param encryptedData - Objeto com dados criptografados ou token JWE compacto
+   * @param validate - Validador por registro (padrão: estrito)
+   * @param hooks - Notificação do caminho de descriptografia escolhido
    * @returns Array de usuários descriptografados
    */
-  public async processEncryptedData(encryptedData: any): Promise<User[]> {
+  public async processEncryptedData(
+    encryptedData: EncryptedData | string,
+    validate?: RecordValidator,
+    hooks?: DataFlowHooks
+  ): Promise<User[]> {
     try {
-      logger.info('Iniciando processamento de dados criptografados');
+      logger.info('Iniciando processamento de dados criptografados', {
+        format: isJweCompact(encryptedData) ? 'jwe' : 'envelope'
+      });
 
-      // Verificar se são dados mock
-      if (encryptedData.mockData && encryptedData.users) {
-        logger.info('Processando dados mock para demonstração');
-        return encryptedData.users;
-      }
+      let decryptedString: string;
 
-      // Validar entrada para dados reais
-      if (!encryptedData.encryptedData || !encryptedData.iv || !encryptedData.authTag) {
-        throw new Error('Dados criptografados incompletos');
-      }
+      if (isJweCompact(encryptedData)) {
+        decryptedString = await this.decryptJwe(encryptedData, hooks);
+      } else {
+        // Validar entrada
+        if (!encryptedData.encryptedData || !encryptedData.iv || !encryptedData.authTag) {
+          throw new Error('Dados criptografados incompletos');
+        }
 
-      // Descriptografar dados usando abordagem híbrida
-      const decryptedString = await this.decryptHybrid(
-        encryptedData.encryptedData,
-        encryptedData.iv,
-        encryptedData.authTag
-      );
+        // Descriptografar dados usando abordagem híbrida
+        decryptedString = await this.decryptHybrid(
+          encryptedData.encryptedData,
+          encryptedData.iv,
+          encryptedData.authTag,
+          encryptedData.kid,
+          encryptedData.algorithm,
+          hooks
+        );
+      }
 
       // Parsear JSON
-      let parsedData: any;
+      let parsedData: unknown;
       try {
         parsedData = JSON.parse(decryptedString);
       } catch (parseError: unknown) {
@@ -83,23 +178,8 @@ export class EncryptionService {
         throw new Error('Dados descriptografados não são um JSON válido');
       }
 
-      // Validar estrutura dos dados
-      if (!Array.isArray(parsedData)) {
-        throw new Error('Dados descriptografados devem ser um array');
-      }
-
-      // Validar cada usuário
-      const users: User[] = parsedData.map((user: any, index: number) => {
-        if (!user.nome || !user.email || !user.phone) {
-          throw new Error(`Usuário ${index + 1} está incompleto`);
-        }
-
-        return {
-          nome: String(user.nome).trim(),
-          email: String(user.email).trim().toLowerCase(),
-          phone: String(user.phone).trim()
-        };
-      });
+      // Validar estrutura e cada usuário
+      const users: User[] = toUsers(parsedData, validate);
 
       logger.info(`Processados ${users.length} usuários com sucesso`);
       return users;
@@ -114,28 +194,137 @@ export class EncryptionService {
   }
 
   /**
-   * Descriptografa dados usando abordagem híbrida (Buffer ou Streams)
-   * Escolhe automaticamente baseado no tamanho dos dados
+   * Descriptografa um stream hex em duas passagens, com memória limitada:
+   * 1. decifra e faz o parse de todo o conteúdo só para verificar a auth tag e o array JSON,
+   *    gravando o texto cifrado (nunca o texto claro) em um arquivo temporário;
+   * 2. com o conteúdo autenticado, decifra o arquivo e entrega os usuários validados em lotes.
+   * Nenhum lote é entregue antes de decipher.final() confirmar a autenticidade dos dados.
+   * @param source - Stream com o texto cifrado em hex
+   * @param envelope - IV, auth tag e kid do envelope
+   * @param onBatch - Callback chamado para cada lote de usuários
+   * @param batchSize - Quantidade de usuários por lote
+   * @param validate - Validador por registro (padrão: estrito)
+   */
+  public async streamEncryptedUsers(
+    source: Readable,
+    envelope: EncryptedStreamEnvelope,
+    onBatch: UserBatchHandler,
+    batchSize: number,
+    validate: RecordValidator = toUser
+  ): Promise<StreamProcessingResult> {
+    logger.info('Iniciando descriptografia em streaming', {
+      batchSize,
+      kid: envelope.kid,
+      algorithm: envelope.algorithm || this.defaultAlgorithm
+    });
+
+    let batch: User[] = [];
+    let usersCount = 0;
+    let recordIndex = 0;
+    let batches = 0;
+    const spoolFile = path.join(os.tmpdir(), `encrypted-stream-${randomUUID()}.bin`);
+
+    try {
+      const suite = getCipherSuite(envelope.algorithm);
+      const keyBuffer = this.suiteKey(suite, await this.resolveKey(envelope.kid));
+      const createDecipher = (): Transform => suite.createDecryptStream(
+        keyBuffer,
+        Buffer.from(envelope.iv, 'hex'),
+        Buffer.from(envelope.authTag, 'hex')
+      );
+
+      // 1. Verificação: falha aqui (auth tag ou JSON inválidos) antes de qualquer entrega
+      await pipeline(
+        source,
+        new HexDecodeTransform(),
+        new FileTeeTransform(spoolFile),
+        createDecipher(),
+        new JsonArrayParser(),
+        createDiscardSink()
+      );
+
+      // 2. Entrega: o texto cifrado já autenticado é decifrado novamente a partir do arquivo
+      const parser = new JsonArrayParser();
+      const done = pipeline(fs.createReadStream(spoolFile), createDecipher(), parser);
+      // Erros do pipeline também chegam ao iterador do parser
+      done.catch(() => undefined);
+
+      for await (const { value } of parser as AsyncIterable<JsonArrayElement>) {
+        // Registros null ou não-objetos chegam ao validador, como no modo bufferizado
+        const user = validate(value, recordIndex++);
+        if (!user) continue;
+
+        batch.push(user);
+        usersCount++;
+
+        if (batch.length >= batchSize) {
+          await onBatch(batch, batches++);
+          batch = [];
+        }
+      }
+
+      await done;
+
+      if (batch.length > 0) {
+        await onBatch(batch, batches++);
+      }
+    } catch (error: unknown) {
+      source.destroy();
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+      logger.error('Erro na descriptografia em streaming', {
+        error: errorMessage,
+        usersCount,
+        batchesDelivered: batches
+      });
+
+      if (error instanceof CustomError) {
+        throw error;
+      }
+      throw new Error(`Falha na descriptografia em streaming: ${errorMessage}`);
+    } finally {
+      await fs.promises.rm(spoolFile, { force: true });
+    }
+
+    logger.info(`Processados ${usersCount} usuários em ${batches} lotes via streaming`);
+    return { usersCount, batches };
+  }
+
+  /**
+   * Valida os metadados de um envelope recebido em modo streaming
+   */
+  public validateStreamEnvelope(envelope: EncryptedStreamEnvelope): boolean {
+    return (
+      typeof envelope.iv === 'string' &&
+      typeof envelope.authTag === 'string' &&
+      envelope.iv.length > 0 &&
+      envelope.authTag.length > 0 &&
+      this.hasValidLengths(envelope)
+    );
+  }
+
+  /**
+   * Descriptografa dados usando abordagem híbrida (Buffer, Worker ou Streams)
+   * Escolhe automaticamente baseado no tamanho dos dados; dados grandes vão
+   * para o pool de worker threads quando habilitado
    */
   private async decryptHybrid(
     encryptedData: string, 
     iv: string, 
-    authTag: string
+    authTag: string,
+    kid?: string,
+    algorithm?: string,
+    hooks?: DataFlowHooks
   ): Promise<string> {
     try {
+      const suite = getCipherSuite(algorithm);
+
       // Converter hex para buffers
       const ivBuffer = Buffer.from(iv, 'hex');
       const encryptedBuffer = Buffer.from(encryptedData, 'hex');
       const authTagBuffer = Buffer.from(authTag, 'hex');
 
-      // Criar chave derivada
-      const password = 'default-password-for-demo';
-      const salt = Buffer.from('default-salt-for-demo', 'utf8');
-      const keyBuffer = crypto.pbkdf2Sync(password, salt, 100000, 32, 'sha256');
-
-      // Criar decipher
-      const decipher = crypto.createDecipheriv(this.algorithm, keyBuffer, ivBuffer);
-      decipher.setAuthTag(authTagBuffer);
+      // Obter chave do provedor
+      const keyBuffer = this.suiteKey(suite, await this.resolveKey(kid));
 
       // Escolher método baseado no tamanho
       const dataSize = encryptedBuffer.length;
@@ -143,14 +332,31 @@ export class EncryptionService {
       if (dataSize < this.threshold) {
         // Buffer para dados pequenos (mais rápido)
         logger.debug(`🔧 Usando Buffer para dados pequenos (${dataSize} bytes)`);
-        return this.decryptWithBuffer(encryptedBuffer, decipher);
+        hooks?.onDecryptionPath?.('buffer');
+        return this.decryptWithBuffer(encryptedBuffer, suite, keyBuffer, ivBuffer, authTagBuffer);
+      } else if (decryptWorkerPool.enabled) {
+        // Worker thread para dados grandes (não bloqueia o event loop)
+        logger.debug(`🧵 Usando Worker para dados grandes (${dataSize} bytes)`);
+        hooks?.onDecryptionPath?.('worker');
+        return await this.decryptWithWorker(suite, keyBuffer, ivBuffer, encryptedBuffer, authTagBuffer);
       } else {
         // Streams para dados grandes (mais eficiente em memória)
         logger.debug(`🌊 Usando Streams para dados grandes (${dataSize} bytes)`);
-        return this.decryptWithStreams(encryptedBuffer, decipher);
+        hooks?.onDecryptionPath?.('streams');
+        return await this.decryptWithStreams(
+          encryptedBuffer,
+          suite.createDecryptStream(keyBuffer, ivBuffer, authTagBuffer)
+        );
       }
 
     } catch (error: unknown) {
+      if (error instanceof UnknownKeyError) {
+        logger.error('Chave de criptografia não disponível', { kid: error.kid });
+        throw error;
+      }
+      if (error instanceof CustomError) {
+        throw error;
+      }
       const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
       logger.error('Erro na descriptografia híbrida', { error: errorMessage });
       throw new Error('Falha na descriptografia dos dados');
@@ -162,11 +368,34 @@ export class EncryptionService {
    */
   private decryptWithBuffer(
     encryptedBuffer: Buffer, 
-    decipher: crypto.DecipherGCM
+    suite: CipherSuite,
+    keyBuffer: Buffer,
+    ivBuffer: Buffer,
+    authTagBuffer: Buffer
   ): string {
-    let decrypted = decipher.update(encryptedBuffer, undefined, 'utf8');
-    decrypted += decipher.final('utf8');
-    return decrypted;
+    return suite.decrypt(keyBuffer, ivBuffer, encryptedBuffer, authTagBuffer).toString('utf8');
+  }
+
+  /**
+   * Descriptografa em uma worker thread do pool (dados grandes)
+   */
+  private decryptWithWorker(
+    suite: CipherSuite,
+    keyBuffer: Buffer,
+    ivBuffer: Buffer,
+    encryptedBuffer: Buffer,
+    authTagBuffer: Buffer
+  ): Promise<string> {
+    const task: DecryptTask = {
+      kind: 'envelope',
+      algorithm: suite.name,
+      key: keyBuffer,
+      iv: ivBuffer,
+      ciphertext: encryptedBuffer,
+      authTag: authTagBuffer
+    };
+
+    return decryptWorkerPool.run<string>(task);
   }
 
   /**
@@ -174,11 +403,11 @@ export class EncryptionService {
    */
   private decryptWithStreams(
     encryptedBuffer: Buffer, 
-    decipher: crypto.DecipherGCM
+    decryptStream: Transform
   ): Promise<string> {
     return new Promise((resolve, reject) => {
       try {
-        const { Readable, Writable, Transform } = require('stream');
+        const { Readable, Writable } = require('stream');
 
         // Stream de entrada
         const inputStream = new Readable({
@@ -188,27 +417,6 @@ export class EncryptionService {
           }
         });
 
-        // Stream de transformação
-        const decryptStream = new Transform({
-          highWaterMark: 64 * 1024,
-          transform(chunk: Buffer, encoding:any, callback:any) {
-            try {
-              const decryptedChunk = decipher.update(chunk);
-              callback(null, decryptedChunk);
-            } catch (error) {
-              callback(error);
-            }
-          },
-          flush(callback: any) {
-            try {
-              const finalChunk = decipher.final();
-              callback(null, finalChunk);
-            } catch (error) {
-              callback(error);
-            }
-          }
-        });
-
         // Stream de saída
         const outputChunks: Buffer[] = [];
         const outputStream = new Writable({
@@ -259,27 +467,59 @@ export class EncryptionService {
   }
 
   /**
-   * Valida se os dados criptografados têm a estrutura esperada
+   * Valida se os dados criptografados têm a estrutura esperada,
+   * incluindo os tamanhos de IV e tag exigidos pelo algoritmo.
+   * Tokens JWE compactos são aceitos se alg/enc forem suportados.
    * @param data - Dados a serem validados
    * @returns true se válido, false caso contrário
+   * @throws CustomError (400) se o algoritmo não for suportado
    */
-  public validateEncryptedData(data: any): boolean {
-    // Aceitar dados mock
-    if (data && data.mockData && data.users) {
+  public validateEncryptedData(data: unknown): data is EncryptedData | string {
+    if (isJweCompact(data)) {
+      parseJweHeader(data);
       return true;
     }
-    
-    // Validar dados reais criptografados
-    return (
-      data &&
-      typeof data === 'object' &&
-      typeof data.encryptedData === 'string' &&
-      typeof data.iv === 'string' &&
-      typeof data.authTag === 'string' &&
-      data.encryptedData.length > 0 &&
-      data.iv.length > 0 &&
-      data.authTag.length > 0
+
+    if (!data || typeof data !== 'object') {
+      return false;
+    }
+
+    const envelope = data as Record<string, unknown>;
+    const isStructureValid = (
+      typeof envelope.encryptedData === 'string' &&
+      typeof envelope.iv === 'string' &&
+      typeof envelope.authTag === 'string' &&
+      envelope.encryptedData.length > 0 &&
+      envelope.iv.length > 0 &&
+      envelope.authTag.length > 0
     );
+
+    if (!isStructureValid) {
+      return false;
+    }
+
+    return this.hasValidLengths(data as EncryptedData);
+  }
+
+  /**
+   * Confere os tamanhos de IV e auth tag (em hex) exigidos pela suíte do envelope
+   */
+  private hasValidLengths(envelope: EncryptedStreamEnvelope): boolean {
+    const suite = getCipherSuite(envelope.algorithm);
+    const isValid = (
+      envelope.iv.length === suite.ivLength * 2 &&
+      envelope.authTag.length === suite.tagLength * 2
+    );
+
+    if (!isValid) {
+      logger.warn('Tamanho de IV ou auth tag incompatível com o algoritmo', {
+        algorithm: suite.name,
+        ivLength: envelope.iv.length / 2,
+        authTagLength: envelope.authTag.length / 2
+      });
+    }
+
+    return isValid;
   }
 
   /**
@@ -288,9 +528,12 @@ export class EncryptionService {
   public getPerformanceStats(): any {
     return {
       threshold: this.threshold,
-      algorithm: this.algorithm,
+      algorithm: this.defaultAlgorithm,
+      algorithms: listAvailableAlgorithms(),
+      keyCache: keyDerivationService.getStats(),
+      workerPool: decryptWorkerPool.getStats(),
       chunkSize: 64 * 1024,
-      description: 'Abordagem híbrida: Buffer para dados pequenos, Streams para dados grandes'
+      description: 'Abordagem híbrida: Buffer para dados pequenos, Worker threads (ou Streams) para dados grandes'
     };
   }
 }
@@ -0,0 +1,60 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileIdempotencyStore, MemoryIdempotencyStore } from '@/services/idempotencyStore';
+
+const TTL_MS = 60 * 1000;
+
+describe('MemoryIdempotencyStore', () => {
+  it('reserva a chave e devolve o registro concluído nas repetições', async () => {
+    const store = new MemoryIdempotencyStore();
+
+    await expect(store.acquire('k1', 'fp', TTL_MS)).resolves.toBeNull();
+    await expect(store.acquire('k1', 'fp', TTL_MS)).resolves.toMatchObject({ state: 'in-flight' });
+
+    await store.complete('k1', 200, { ok: true });
+
+    await expect(store.acquire('k1', 'fp', TTL_MS)).resolves.toMatchObject({
+      state: 'completed',
+      statusCode: 200,
+      body: { ok: true }
+    });
+  });
+
+  it('libera a chave após falha e descarta registros expirados', async () => {
+    const store = new MemoryIdempotencyStore();
+
+    await store.acquire('k1', 'fp', TTL_MS);
+    await store.release('k1');
+    await expect(store.acquire('k1', 'fp', TTL_MS)).resolves.toBeNull();
+
+    await store.acquire('k2', 'fp', -1);
+    await expect(store.acquire('k2', 'fp', TTL_MS)).resolves.toBeNull();
+  });
+});
+
+describe('FileIdempotencyStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'idempotency-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('preserva respostas concluídas entre reinícios e descarta as em andamento', async () => {
+    const filePath = path.join(dir, 'idempotency.json');
+    const store = new FileIdempotencyStore(filePath);
+
+    await store.acquire('concluida', 'fp', TTL_MS);
+    await store.complete('concluida', 201, { id: 1 });
+    await store.acquire('em-andamento', 'fp', TTL_MS);
+
+    const restarted = new FileIdempotencyStore(filePath);
+
+    await expect(restarted.acquire('concluida', 'fp', TTL_MS)).resolves.toMatchObject({ statusCode: 201, body: { id: 1 } });
+    await expect(restarted.acquire('em-andamento', 'fp', TTL_MS)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { config } from '@/config';
+import { IdempotencyConfig, IdempotencyRecord, IdempotencyStore, IdempotencyStoreType } from '@/types';
+import { JsonFile } from '@/utils/jsonFile';
+import { logger } from '@/utils/logger';
+
+/**
+ * Armazena respostas por Idempotency-Key em memória (perdidas ao reiniciar)
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  public readonly type: IdempotencyStoreType = 'memory';
+  protected readonly records = new Map<string, IdempotencyRecord>();
+
+  public async acquire(key: string, fingerprint: string, ttlMs: number): Promise<IdempotencyRecord | null> {
+    await this.ready();
+
+    const existing = this.records.get(key);
+    if (existing && existing.expiresAt > Date.now()) {
+      return existing;
+    }
+
+    this.records.set(key, {
+      key,
+      fingerprint,
+      state: 'in-flight',
+      createdAt: new Date().toISOString(),
+      expiresAt: Date.now() + ttlMs
+    });
+    await this.persist();
+
+    return null;
+  }
+
+  public async complete(key: string, statusCode: number, body: unknown): Promise<void> {
+    await this.ready();
+
+    const record = this.records.get(key);
+    if (!record) {
+      return;
+    }
+
+    record.state = 'completed';
+    record.statusCode = statusCode;
+    record.body = body;
+    await this.persist();
+  }
+
+  public async release(key: string): Promise<void> {
+    await this.ready();
+
+    this.records.delete(key);
+    await this.persist();
+  }
+
+  protected pruneExpired(): void {
+    const now = Date.now();
+    for (const [key, record] of this.records) {
+      if (record.expiresAt <= now) {
+        this.records.delete(key);
+      }
+    }
+  }
+
+  protected async ready(): Promise<void> {
+    this.pruneExpired();
+  }
+
+  protected async persist(): Promise<void> {
+    // Sem persistência em memória
+  }
+}
+
+/**
+ * Armazena respostas por Idempotency-Key em um arquivo JSON, preservando-as entre reinícios.
+ * Pensado para uma única instância: o arquivo é lido uma vez e reescrito a cada alteração.
+ */
+export class FileIdempotencyStore extends MemoryIdempotencyStore {
+  public readonly type: IdempotencyStoreType = 'file';
+  private readonly file: JsonFile;
+  private loading?: Promise<void>;
+
+  constructor(filePath: string) {
+    super();
+    this.file = new JsonFile(filePath, 'chaves de idempotência');
+  }
+
+  protected async ready(): Promise<void> {
+    this.loading ??= this.load();
+    await this.loading;
+    this.pruneExpired();
+  }
+
+  private async load(): Promise<void> {
+    const records = await this.file.read<IdempotencyRecord[]>();
+    if (!records) {
+      return;
+    }
+
+    // Requisições em andamento antes do reinício não serão concluídas
+    records
+      .filter(record => record.state === 'completed')
+      .forEach(record => this.records.set(record.key, record));
+
+    logger.info('Chaves de idempotência carregadas', { file: this.file.filePath, count: this.records.size });
+  }
+
+  protected persist(): Promise<void> {
+    return this.file.write([...this.records.values()]);
+  }
+}
+
+export const createIdempotencyStore = (idempotencyConfig: IdempotencyConfig): IdempotencyStore => {
+  if (idempotencyConfig.store === 'file') {
+    return new FileIdempotencyStore(idempotencyConfig.file!);
+  }
+  return new MemoryIdempotencyStore();
+};
+
+export const idempotencyStore = createIdempotencyStore(config.idempotency);
@@ -0,0 +1,126 @@
+import { DataFlowContext, DataFlowResult, Job } from '@/types';
+import { dataFlowService } from '@/services/dataFlow';
+import { JobRunner } from '@/services/jobRunner';
+import { throwIfCancelled } from '@/utils/cancellation';
+
+const result = (failedBatches: number): DataFlowResult => ({
+  runId: 'run',
+  source: 'fixture',
+  processing: 'buffer',
+  users: [],
+  usersCount: 4,
+  deliveredUsers: 4 - failedBatches * 2,
+  delivery: {
+    runId: 'run',
+    usersCount: 4,
+    deliveredUsers: 4 - failedBatches * 2,
+    totalBatches: 2,
+    succeededBatches: 2 - failedBatches,
+    failedBatches,
+    batches: []
+  },
+  validation: { mode: 'strict', total: 4, accepted: 4, rejected: 0, rejections: [], truncated: false },
+  normalization: { strategy: 'first', defaultRegion: 'BR', rewritten: 0, merged: 0, invalidPhones: 0 },
+  partial: failedBatches > 0,
+  sync: { mode: 'full' }
+});
+
+// Aguarda o job sair da fila e da execução
+const settled = async (runner: JobRunner, job: Job): Promise<Job> => {
+  while (!runner.get(job.id)?.finishedAt) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  return runner.get(job.id)!;
+};
+
+describe('JobRunner', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('registra as etapas e as contagens de um job concluído', async () => {
+    jest.spyOn(dataFlowService, 'execute').mockImplementation(async (options, context?: DataFlowContext) => {
+      context?.onStage?.('fetching');
+      context?.onStage?.('decrypting');
+      context?.onStage?.('sending');
+      return result(0);
+    });
+    const runner = new JobRunner(1);
+
+    const job = await settled(runner, runner.enqueue({ mode: 'strict' }));
+
+    expect(job.state).toBe('succeeded');
+    expect(job.steps.map(step => step.stage)).toEqual(['fetching', 'decrypting', 'sending']);
+    expect(job.steps.every(step => step.durationMs !== undefined)).toBe(true);
+    expect(job.counts).toEqual({ usersCount: 4, deliveredUsers: 4, rejected: 0, batches: 2, failedBatches: 0 });
+  });
+
+  it('finaliza como partial quando parte dos lotes falha no N8N', async () => {
+    jest.spyOn(dataFlowService, 'execute').mockResolvedValue(result(1));
+    const runner = new JobRunner(1);
+
+    const job = await settled(runner, runner.enqueue({ mode: 'strict' }));
+
+    expect(job.state).toBe('partial');
+    expect(job.error).toBe('1 de 2 lotes falharam no N8N');
+    expect(() => runner.cancel(job.id)).toThrow('Job já finalizado com estado partial');
+  });
+
+  describe('cancelamento', () => {
+    // Cada execução aguarda a liberação do teste antes da primeira etapa, como o registro
+    // do status no streaming, e respeita o sinal de cancelamento como o fluxo real
+    let releases: Array<() => void>;
+
+    beforeEach(() => {
+      releases = [];
+      jest.spyOn(dataFlowService, 'execute').mockImplementation(async (options, context?: DataFlowContext) => {
+        await new Promise<void>(resolve => releases.push(resolve));
+        throwIfCancelled(context?.signal);
+        context?.onStage?.('fetching');
+        return result(0);
+      });
+    });
+
+    const started = async (count: number): Promise<void> => {
+      while (releases.length < count) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    };
+
+    it('remove da fila um job ainda não iniciado sem afetar os demais', async () => {
+      const runner = new JobRunner(1);
+      const first = runner.enqueue({ mode: 'strict' });
+      const second = runner.enqueue({ mode: 'strict' });
+      const third = runner.enqueue({ mode: 'strict' });
+      await started(1);
+
+      expect(runner.cancel(second.id)).toMatchObject({ state: 'cancelled' });
+
+      releases[0]();
+      await settled(runner, first);
+      await started(2);
+      releases[1]();
+
+      await expect(settled(runner, third)).resolves.toMatchObject({ state: 'succeeded' });
+      expect(runner.get(second.id)?.state).toBe('cancelled');
+      expect(dataFlowService.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('interrompe um job já retirado da fila antes da primeira etapa', async () => {
+      const runner = new JobRunner(1);
+      const running = runner.enqueue({ mode: 'strict' });
+      const next = runner.enqueue({ mode: 'strict' });
+      await started(1);
+
+      // Ainda queued, mas já fora da fila
+      expect(runner.cancel(running.id)?.state).toBe('queued');
+
+      releases[0]();
+      await expect(settled(runner, running)).resolves.toMatchObject({ state: 'cancelled' });
+
+      await started(2);
+      releases[1]();
+      await expect(settled(runner, next)).resolves.toMatchObject({ state: 'succeeded' });
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { randomUUID } from 'crypto';
+import { DataFlowStage, ExecuteOptions, Job } from '@/types';
+import { config } from '@/config';
+import { CustomError, OperationCancelledError } from '@/middleware/errorHandler';
+import { dataFlowService } from '@/services/dataFlow';
+import { TtlCache } from '@/utils/ttlCache';
+import { logger } from '@/utils/logger';
+
+const JOB_TTL_MS = 24 * 60 * 60 * 1000; // 24 horas
+const JOB_MAX_ENTRIES = 1000;
+
+const FINAL_STATES = ['succeeded', 'partial', 'failed', 'cancelled'];
+
+/**
+ * Executa o fluxo de dados em segundo plano, um job por vez (ou até JOB_CONCURRENCY),
+ * registrando etapas, tempos e contagens consultáveis por id
+ */
+export class JobRunner {
+  private readonly jobs = new TtlCache<string, Job>(JOB_TTL_MS, JOB_MAX_ENTRIES);
+  private readonly queue: string[] = [];
+  private readonly controllers = new Map<string, AbortController>();
+  private running = 0;
+
+  constructor(private readonly concurrency: number) {}
+
+  /**
+   * Enfileira uma execução e retorna o job no estado queued
+   */
+  public enqueue(options: ExecuteOptions): Job {
+    const job: Job = {
+      id: randomUUID(),
+      runId: randomUUID(),
+      state: 'queued',
+      options,
+      createdAt: new Date().toISOString(),
+      steps: [],
+      counts: { usersCount: 0, deliveredUsers: 0, rejected: 0, batches: 0, failedBatches: 0 }
+    };
+
+    this.jobs.set(job.id, job);
+    this.queue.push(job.id);
+
+    logger.info('Job de execução enfileirado', { jobId: job.id, runId: job.runId, queued: this.queue.length });
+
+    setImmediate(() => this.drain());
+    return job;
+  }
+
+  public get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Cancela um job enfileirado ou em execução.
+   * Lotes já entregues ao N8N não são desfeitos.
+   */
+  public cancel(id: string): Job | undefined {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+
+    if (FINAL_STATES.includes(job.state)) {
+      throw new CustomError(`Job já finalizado com estado ${job.state}`, 409);
+    }
+
+    // Um job retirado da fila continua queued até a primeira etapa: a fila decide se ele já começou
+    const position = this.queue.indexOf(id);
+    if (position !== -1) {
+      this.queue.splice(position, 1);
+      this.finish(job, 'cancelled');
+    } else {
+      this.controllers.get(id)?.abort();
+    }
+
+    logger.info('Cancelamento de job solicitado', { jobId: id, state: job.state });
+    return job;
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const job = this.jobs.get(this.queue.shift()!);
+      if (!job) {
+        continue;
+      }
+
+      this.running++;
+      this.run(job).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    job.startedAt = new Date().toISOString();
+
+    try {
+      const result = await dataFlowService.execute(job.options, {
+        runId: job.runId,
+        trigger: 'job',
+        jobId: job.id,
+        signal: controller.signal,
+        onStage: stage => this.enterStage(job, stage)
+      });
+
+      job.counts = {
+        usersCount: result.usersCount,
+        deliveredUsers: result.deliveredUsers,
+        rejected: result.validation.rejected,
+        batches: result.delivery?.totalBatches ?? result.stream?.batches ?? 0,
+        failedBatches: result.delivery?.failedBatches ?? 0
+      };
+      job.validation = result.validation;
+      job.normalization = result.normalization;
+
+      if (result.partial) {
+        job.error = `${result.delivery!.failedBatches} de ${result.delivery!.totalBatches} lotes falharam no N8N`;
+      }
+      this.finish(job, result.partial ? 'partial' : 'succeeded');
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+
+      if (error instanceof OperationCancelledError) {
+        this.finish(job, 'cancelled');
+      } else {
+        job.error = errorMessage;
+        this.finish(job, 'failed');
+      }
+    } finally {
+      this.controllers.delete(job.id);
+    }
+  }
+
+  private enterStage(job: Job, stage: DataFlowStage): void {
+    // No modo streaming, decrypting e sending se alternam; cada etapa é registrada uma única vez
+    if (job.steps.some(step => step.stage === stage)) {
+      return;
+    }
+
+    this.closeCurrentStep(job);
+    job.state = stage;
+    job.steps.push({ stage, startedAt: new Date().toISOString() });
+  }
+
+  private closeCurrentStep(job: Job): void {
+    const current = job.steps[job.steps.length - 1];
+    if (current && !current.finishedAt) {
+      const now = new Date();
+      current.finishedAt = now.toISOString();
+      current.durationMs = now.getTime() - new Date(current.startedAt).getTime();
+    }
+  }
+
+  private finish(job: Job, state: 'succeeded' | 'partial' | 'failed' | 'cancelled'): void {
+    // O estado final é definitivo
+    if (job.finishedAt) {
+      return;
+    }
+
+    this.closeCurrentStep(job);
+    job.state = state;
+    job.finishedAt = new Date().toISOString();
+
+    logger.info('Job de execução finalizado', {
+      jobId: job.id,
+      runId: job.runId,
+      state,
+      counts: job.counts,
+      error: job.error
+    });
+  }
+}
+
+export const jobRunner = new JobRunner(config.jobs.concurrency);
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { CustomError } from '@/middleware/errorHandler';
+import { decryptJweContent, extractJwe, isJweCompact, openJweCompact, parseJweHeader } from '@/services/jwe';
+
+const KEY = crypto.randomBytes(32);
+const KEY_WRAP_IV = Buffer.from('A6A6A6A6A6A6A6A6', 'hex');
+
+interface TokenOptions {
+  alg?: 'dir' | 'A256KW';
+  kid?: string;
+  tagLength?: number;
+}
+
+// Gera um JWE compacto A256GCM, como o emissor faria
+const createToken = (payload: string, { alg = 'dir', kid, tagLength = 16 }: TokenOptions = {}): string => {
+  const header = Buffer.from(JSON.stringify({ alg, enc: 'A256GCM', ...(kid && { kid }) })).toString('base64url');
+  const contentKey = alg === 'dir' ? KEY : crypto.randomBytes(32);
+  const iv = crypto.randomBytes(12);
+
+  let encryptedKey = '';
+  if (alg === 'A256KW') {
+    const wrap = crypto.createCipheriv('id-aes256-wrap', KEY, KEY_WRAP_IV);
+    encryptedKey = Buffer.concat([wrap.update(contentKey), wrap.final()]).toString('base64url');
+  }
+
+  const cipher = crypto.createCipheriv('aes-256-gcm', contentKey, iv);
+  cipher.setAAD(Buffer.from(header, 'ascii'));
+  const ciphertext = Buffer.concat([cipher.update(payload, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag().subarray(0, tagLength);
+
+  return [header, encryptedKey, iv.toString('base64url'), ciphertext.toString('base64url'), tag.toString('base64url')].join('.');
+};
+
+const decrypt = async (token: string): Promise<string> =>
+  decryptJweContent(await openJweCompact(token, async () => KEY)).toString('utf8');
+
+describe('JWE compacto', () => {
+  it.each(['dir', 'A256KW'] as const)('descriptografa tokens com alg %s', async alg => {
+    await expect(decrypt(createToken('[{"nome":"Ana"}]', { alg }))).resolves.toBe('[{"nome":"Ana"}]');
+  });
+
+  it('repassa o kid do header para a resolução da chave', async () => {
+    const resolveKey = jest.fn(async () => KEY);
+
+    await openJweCompact(createToken('[]', { kid: 'k1' }), resolveKey);
+
+    expect(resolveKey).toHaveBeenCalledWith('k1');
+  });
+
+  it('recusa auth tags com menos de 16 bytes', async () => {
+    const token = createToken('[]', { tagLength: 12 });
+
+    await expect(openJweCompact(token, async () => KEY)).rejects.toThrow('deve ter 16 bytes');
+  });
+
+  it('recusa tokens com header protegido adulterado', async () => {
+    const [, ...rest] = createToken('[]').split('.');
+    const header = Buffer.from(JSON.stringify({ alg: 'dir', enc: 'A256GCM', kid: 'x' })).toString('base64url');
+
+    await expect(decrypt([header, ...rest].join('.'))).rejects.toThrow();
+  });
+
+  it('recusa alg, enc e compressão não suportados', () => {
+    const tokenWith = (header: object): string =>
+      `${Buffer.from(JSON.stringify(header)).toString('base64url')}..aa.bb.cc`;
+
+    expect(() => parseJweHeader(tokenWith({ alg: 'RSA-OAEP', enc: 'A256GCM' }))).toThrow(CustomError);
+    expect(() => parseJweHeader(tokenWith({ alg: 'dir', enc: 'A128CBC-HS256' }))).toThrow(CustomError);
+    expect(() => parseJweHeader(tokenWith({ alg: 'dir', enc: 'A256GCM', zip: 'DEF' }))).toThrow(CustomError);
+  });
+});
+
+describe('extractJwe', () => {
+  const token = createToken('[]');
+
+  it('encontra o token na raiz, em jwe/token ou dentro de data', () => {
+    expect(isJweCompact(token)).toBe(true);
+    expect(extractJwe(`  ${token}\n`)).toBe(token);
+    expect(extractJwe({ jwe: token })).toBe(token);
+    expect(extractJwe({ token })).toBe(token);
+    expect(extractJwe({ data: token })).toBe(token);
+    expect(extractJwe({ data: { jwe: token } })).toBe(token);
+  });
+
+  it('ignora corpos sem token', () => {
+    expect(extractJwe({ encryptedData: 'abc', iv: 'def', authTag: '123' })).toBeUndefined();
+    expect(extractJwe([token])).toBeUndefined();
+    expect(extractJwe(42)).toBeUndefined();
+    expect(extractJwe(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import { JweContent, JweProtectedHeader } from '@/types';
+import { CustomError } from '@/middleware/errorHandler';
+
+const SUPPORTED_ALGS = ['dir', 'A256KW'];
+const SUPPORTED_ENCS = ['A256GCM'];
+const KEY_WRAP_IV = Buffer.from('A6A6A6A6A6A6A6A6', 'hex'); // IV padrão do AES Key Wrap (RFC 3394)
+const AUTH_TAG_LENGTH = 16; // A256GCM exige tag de 128 bits (RFC 7518)
+
+const JWE_COMPACT_PATTERN = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/;
+
+/**
+ * Verifica se o valor é um token JWE em serialização compacta (5 partes base64url)
+ */
+export const isJweCompact = (value: unknown): value is string => {
+  return typeof value === 'string' && JWE_COMPACT_PATTERN.test(value.trim());
+};
+
+/**
+ * Decodifica e valida o header protegido de um JWE compacto
+ * @throws CustomError (400) se alg/enc não forem suportados
+ */
+export const parseJweHeader = (token: string): JweProtectedHeader => {
+  let header: JweProtectedHeader;
+  try {
+    header = JSON.parse(Buffer.from(token.trim().split('.')[0], 'base64url').toString('utf8'));
+  } catch (error: unknown) {
+    throw new CustomError('Header protegido do JWE inválido', 400);
+  }
+
+  if (!SUPPORTED_ALGS.includes(header.alg)) {
+    throw new CustomError(`Algoritmo JWE não suportado: ${header.alg}`, 400);
+  }
+
+  if (!SUPPORTED_ENCS.includes(header.enc)) {
+    throw new CustomError(`Criptografia de conteúdo JWE não suportada: ${header.enc}`, 400);
+  }
+
+  if (header.zip !== undefined) {
+    throw new CustomError('Compressão JWE (zip) não suportada', 400);
+  }
+
+  return header;
+};
+
+/**
+ * Valida um JWE compacto e obtém a chave de conteúdo, sem descriptografar o payload
+ * (alg dir ou A256KW, enc A256GCM)
+ * @param token - Token JWE compacto
+ * @param resolveKey - Obtém a chave pelo kid do header (CEK em dir, KEK em A256KW)
+ * @returns Partes do token para decryptJweContent
+ */
+export const openJweCompact = async (
+  token: string,
+  resolveKey: (kid?: string) => Promise<Buffer>
+): Promise<JweContent> => {
+  const [encodedHeader, encodedKey, encodedIv, encodedCiphertext, encodedTag] = token.trim().split('.');
+  const header = parseJweHeader(token);
+  const key = await resolveKey(header.kid);
+
+  let contentKey: Buffer;
+  if (header.alg === 'dir') {
+    if (encodedKey.length > 0) {
+      throw new CustomError('JWE com alg dir não deve conter chave criptografada', 400);
+    }
+    contentKey = key;
+  } else {
+    const unwrap = crypto.createDecipheriv('id-aes256-wrap', key, KEY_WRAP_IV);
+    contentKey = Buffer.concat([unwrap.update(Buffer.from(encodedKey, 'base64url')), unwrap.final()]);
+  }
+
+  // Tags truncadas seriam aceitas pelo GCM e reduziriam a garantia de autenticidade
+  const authTag = Buffer.from(encodedTag, 'base64url');
+  if (authTag.length !== AUTH_TAG_LENGTH) {
+    throw new CustomError(`Tag de autenticação do JWE deve ter ${AUTH_TAG_LENGTH} bytes`, 400);
+  }
+
+  return {
+    contentKey,
+    iv: Buffer.from(encodedIv, 'base64url'),
+    ciphertext: Buffer.from(encodedCiphertext, 'base64url'),
+    authTag,
+    // O AAD do JWE compacto é o header protegido codificado em ASCII
+    aad: Buffer.from(encodedHeader, 'ascii')
+  };
+};
+
+const toBuffer = (data: Uint8Array): Buffer => Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+/**
+ * Descriptografa o payload de um JWE aberto com openJweCompact (síncrono; usado também pelo worker)
+ */
+export const decryptJweContent = (content: JweContent): Buffer => {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', toBuffer(content.contentKey), toBuffer(content.iv), {
+    authTagLength: AUTH_TAG_LENGTH
+  });
+  decipher.setAAD(toBuffer(content.aad));
+  decipher.setAuthTag(toBuffer(content.authTag));
+
+  return Buffer.concat([decipher.update(toBuffer(content.ciphertext)), decipher.final()]);
+};
+
+/**
+ * Procura um JWE compacto no corpo de uma resposta: string pura ou campos jwe/token (na raiz ou em data)
+ */
+export const extractJwe = (body: unknown): string | undefined => {
+  if (isJweCompact(body)) {
+    return body.trim();
+  }
+
+  if (!body || typeof body !== 'object') {
+    return undefined;
+  }
+
+  const root = body as Record<string, unknown>;
+  const data = root.data && typeof root.data === 'object' ? root.data as Record<string, unknown> : undefined;
+
+  const candidates = [root.jwe, root.token, root.data, data?.jwe, data?.token];
+  const token = candidates.find(isJweCompact);
+  return token?.trim();
+};
@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { KeyDerivationParams } from '@/types';
+import { config } from '@/config';
+import { logger } from '@/utils/logger';
+import { TtlCache } from '@/utils/ttlCache';
+
+const pbkdf2 = promisify(crypto.pbkdf2);
+
+/**
+ * Deriva chaves via PBKDF2 no threadpool do libuv (fora do event loop),
+ * com cache por senha/salt/parâmetros. Derivações concorrentes iguais
+ * compartilham a mesma promise.
+ */
+export class KeyDerivationService {
+  private readonly cache: TtlCache<string, Promise<Buffer>>;
+
+  constructor(ttlMs: number, maxEntries: number) {
+    this.cache = new TtlCache(ttlMs, maxEntries);
+  }
+
+  /**
+   * Identificador do cache: hash dos parâmetros, sem manter a senha em claro como chave
+   */
+  private cacheKey(params: KeyDerivationParams): string {
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify([params.passphrase, params.salt, params.iterations, params.keyLength, params.digest]))
+      .digest('hex');
+  }
+
+  public deriveKey(params: KeyDerivationParams): Promise<Buffer> {
+    const key = this.cacheKey(params);
+    const cached = this.cache.get(key);
+
+    if (cached) {
+      return cached;
+    }
+
+    const startedAt = Date.now();
+    const derivation = pbkdf2(
+      params.passphrase,
+      Buffer.from(params.salt, 'utf8'),
+      params.iterations,
+      params.keyLength,
+      params.digest
+    ).then(derivedKey => {
+      logger.debug('Chave derivada via PBKDF2', {
+        iterations: params.iterations,
+        durationMs: Date.now() - startedAt
+      });
+      return derivedKey;
+    });
+
+    // Falhas não devem ficar em cache
+    derivation.catch(() => this.cache.delete(key));
+
+    this.cache.set(key, derivation);
+    return derivation;
+  }
+
+  public getStats() {
+    return this.cache.getStats();
+  }
+}
+
+export const keyDerivationService = new KeyDerivationService(
+  config.keyCache.ttlMs,
+  config.keyCache.maxEntries
+);
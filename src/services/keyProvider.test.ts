@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import { UnknownKeyError } from '@/middleware/errorHandler';
+import { KeyringKeyProvider, parseKey, StaticKeyProvider } from '@/services/keyProvider';
+
+const HOUR_MS = 60 * 60 * 1000;
+const hexKey = (): string => crypto.randomBytes(32).toString('hex');
+
+describe('parseKey', () => {
+  it('aceita chaves de 32 bytes em hex ou base64', () => {
+    const key = crypto.randomBytes(32);
+
+    expect(parseKey(key.toString('hex'))).toEqual(key);
+    expect(parseKey(key.toString('base64'))).toEqual(key);
+  });
+
+  it('recusa chaves de outro tamanho', () => {
+    expect(() => parseKey(crypto.randomBytes(16).toString('hex'))).toThrow('32 bytes');
+  });
+});
+
+describe('StaticKeyProvider', () => {
+  const key = hexKey();
+
+  it('devolve a chave para envelopes sem kid', async () => {
+    const provider = new StaticKeyProvider('env', () => key);
+
+    await expect(provider.getKey()).resolves.toEqual(Buffer.from(key, 'hex'));
+  });
+
+  it('recusa envelopes com kid quando nenhum kid está configurado', async () => {
+    const provider = new StaticKeyProvider('env', () => key);
+
+    await expect(provider.getKey('k1')).rejects.toBeInstanceOf(UnknownKeyError);
+  });
+
+  it('recusa um kid diferente do configurado', async () => {
+    const provider = new StaticKeyProvider('file', () => key, 'k1');
+
+    await expect(provider.getKey('k1')).resolves.toEqual(Buffer.from(key, 'hex'));
+    await expect(provider.getKey('k2')).rejects.toBeInstanceOf(UnknownKeyError);
+  });
+});
+
+describe('KeyringKeyProvider', () => {
+  const current = hexKey();
+  const previous = hexKey();
+
+  const createProvider = (retiredAt: string): KeyringKeyProvider => new KeyringKeyProvider({
+    activeKid: 'k2',
+    keys: {
+      k1: { key: previous, retiredAt },
+      k2: { key: current }
+    }
+  }, 24 * HOUR_MS);
+
+  it('usa a chave ativa quando o envelope não indica kid', async () => {
+    const provider = createProvider(new Date().toISOString());
+
+    await expect(provider.getKey()).resolves.toEqual(Buffer.from(current, 'hex'));
+    expect(provider.getActiveKeyId()).toBe('k2');
+  });
+
+  it('aceita chaves aposentadas durante o período de carência', async () => {
+    const provider = createProvider(new Date(Date.now() - HOUR_MS).toISOString());
+
+    await expect(provider.getKey('k1')).resolves.toEqual(Buffer.from(previous, 'hex'));
+  });
+
+  it('recusa chaves aposentadas após o período de carência e kids desconhecidos', async () => {
+    const provider = createProvider(new Date(Date.now() - 25 * HOUR_MS).toISOString());
+
+    await expect(provider.getKey('k1')).rejects.toThrow('expirada');
+    await expect(provider.getKey('k9')).rejects.toBeInstanceOf(UnknownKeyError);
+  });
+
+  it('exige que o activeKid exista no keyring', () => {
+    expect(() => new KeyringKeyProvider({ activeKid: 'k3', keys: { k1: { key: current } } }, 0)).toThrow('activeKid');
+  });
+});
@@ -0,0 +1,181 @@
+import fs from 'fs';
+import { EncryptionConfig, KeyProvider, KeyProviderType, KeyringDocument, KeyringEntry } from '@/types';
+import { config } from '@/config';
+import { UnknownKeyError } from '@/middleware/errorHandler';
+import { keyDerivationService } from '@/services/keyDerivation';
+import { logger } from '@/utils/logger';
+
+const KEY_LENGTH = 32; // AES-256
+
+/**
+ * Converte uma chave em hex ou base64 para Buffer de 32 bytes
+ */
+export const parseKey = (value: string): Buffer => {
+  const trimmed = value.trim();
+  const keyBuffer = /^[0-9a-fA-F]+$/.test(trimmed) && trimmed.length === KEY_LENGTH * 2
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+
+  if (keyBuffer.length !== KEY_LENGTH) {
+    throw new Error(`Chave de criptografia deve ter ${KEY_LENGTH} bytes (hex ou base64)`);
+  }
+
+  return keyBuffer;
+};
+
+/**
+ * Provedor com uma única chave (variável de ambiente ou arquivo de secret montado)
+ */
+export class StaticKeyProvider implements KeyProvider {
+  constructor(
+    public readonly type: KeyProviderType,
+    private readonly loadKey: () => string,
+    private readonly kid?: string
+  ) {}
+
+  public async getKey(kid?: string): Promise<Buffer> {
+    // Sem kid configurado, envelopes que indicam uma chave não podem ser atendidos por esta
+    if (kid && kid !== this.kid) {
+      throw new UnknownKeyError(kid);
+    }
+
+    return parseKey(this.loadKey());
+  }
+
+  public getActiveKeyId(): string | undefined {
+    return this.kid;
+  }
+
+  public listKeyIds(): string[] {
+    return this.kid ? [this.kid] : [];
+  }
+}
+
+/**
+ * Provedor que deriva a chave de uma senha via PBKDF2 (assíncrono e com cache)
+ */
+export class PassphraseKeyProvider implements KeyProvider {
+  public readonly type = 'passphrase' as const;
+
+  constructor(
+    private readonly passphrase: string,
+    private readonly salt: string,
+    private readonly iterations: number = 100000
+  ) {}
+
+  public async getKey(kid?: string): Promise<Buffer> {
+    if (kid) {
+      throw new UnknownKeyError(kid);
+    }
+
+    return keyDerivationService.deriveKey({
+      passphrase: this.passphrase,
+      salt: this.salt,
+      iterations: this.iterations,
+      keyLength: KEY_LENGTH,
+      digest: 'sha256'
+    });
+  }
+
+  public getActiveKeyId(): string | undefined {
+    return undefined;
+  }
+
+  public listKeyIds(): string[] {
+    return [];
+  }
+}
+
+/**
+ * Provedor com múltiplas chaves identificadas por kid. A rotação é feita no keyring (novo
+ * activeKid e retiredAt na chave anterior) e aplicada ao reiniciar; chaves aposentadas
+ * continuam válidas durante o período de carência.
+ */
+export class KeyringKeyProvider implements KeyProvider {
+  public readonly type = 'keyring' as const;
+  private readonly activeKid: string;
+  private readonly keys: Map<string, KeyringEntry>;
+
+  constructor(document: KeyringDocument, private readonly gracePeriodMs: number) {
+    if (!document.activeKid || !document.keys?.[document.activeKid]) {
+      throw new Error('Keyring deve conter activeKid presente em keys');
+    }
+
+    this.activeKid = document.activeKid;
+    this.keys = new Map(Object.entries(document.keys));
+  }
+
+  public async getKey(kid?: string): Promise<Buffer> {
+    const keyId = kid || this.activeKid;
+    const entry = this.keys.get(keyId);
+
+    if (!entry) {
+      throw new UnknownKeyError(keyId);
+    }
+
+    if (entry.retiredAt) {
+      const validUntil = new Date(entry.retiredAt).getTime() + this.gracePeriodMs;
+      if (Date.now() > validUntil) {
+        throw new UnknownKeyError(keyId, 'expirada');
+      }
+    }
+
+    return parseKey(entry.key);
+  }
+
+  public getActiveKeyId(): string {
+    return this.activeKid;
+  }
+
+  public listKeyIds(): string[] {
+    return Array.from(this.keys.keys());
+  }
+}
+
+const loadKeyringDocument = (encryption: EncryptionConfig): KeyringDocument => {
+  const raw = encryption.keyringFile
+    ? fs.readFileSync(encryption.keyringFile, 'utf8')
+    : encryption.keyring!;
+
+  try {
+    return JSON.parse(raw) as KeyringDocument;
+  } catch (error: unknown) {
+    throw new Error('Keyring de criptografia não é um JSON válido');
+  }
+};
+
+/**
+ * Cria o provedor de chaves conforme a configuração
+ */
+export const createKeyProvider = (encryption: EncryptionConfig): KeyProvider => {
+  switch (encryption.keyProvider) {
+    case 'file':
+      return new StaticKeyProvider('file', () => fs.readFileSync(encryption.keyFile!, 'utf8'));
+    case 'keyring':
+      return new KeyringKeyProvider(loadKeyringDocument(encryption), encryption.gracePeriodMs);
+    case 'passphrase':
+      return new PassphraseKeyProvider(encryption.passphrase!, encryption.salt!);
+    case 'env':
+    default:
+      return new StaticKeyProvider('env', () => {
+        if (!encryption.key) {
+          throw new Error('ENCRYPTION_KEY não configurada');
+        }
+        return encryption.key;
+      });
+  }
+};
+
+// Inicialização preguiçosa: falhas de configuração surgem na primeira descriptografia
+let instance: KeyProvider | undefined;
+
+export const getKeyProvider = (): KeyProvider => {
+  if (!instance) {
+    instance = createKeyProvider(config.encryption);
+    logger.info('Provedor de chaves de criptografia inicializado', {
+      type: instance.type,
+      activeKid: instance.getActiveKeyId()
+    });
+  }
+  return instance;
+};
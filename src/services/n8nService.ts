@@ -1,27 +1,214 @@
-import axios, { AxiosResponse, AxiosError } from 'axios';
-import { User, ApiResponse } from '@/types';
+import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import {
+  User,
+  ApiResponse,
+  CircuitBreakerSnapshot,
+  ClearScope,
+  EncryptedStreamEnvelope,
+  N8NBatchResult,
+  N8NClearPayload,
+  N8NDeliverySummary,
+  N8NProcessPayload,
+  N8NSyncPayload,
+  SyncDelta
+} from '@/types';
 import { config } from '@/config';
+import { CircuitOpenError } from '@/middleware/errorHandler';
+import { getCircuitBreaker } from '@/services/circuitBreaker';
+import { extractJwe } from '@/services/jwe';
+import { chunkDelta, deltaSize } from '@/services/syncState';
+import { chunk, mapWithConcurrency } from '@/utils/concurrency';
 import { logger } from '@/utils/logger';
+import { isServiceFailure, withRetry } from '@/utils/retry';
+import { signOutboundRequest } from '@/utils/signature';
 
 export class N8NService {
-  private readonly timeout = 30000; // 30 segundos
+  private readonly timeout = config.httpClient.timeoutMs;
+  // Cliente HTTP compartilhado: todas as chamadas de saída passam pela assinatura HMAC
+  private readonly http: AxiosInstance;
+
+  constructor() {
+    this.http = axios.create();
+    this.http.interceptors.request.use(signOutboundRequest);
+
+    if (!config.webhookSigning.secret) {
+      logger.warn('N8N_SIGNING_SECRET não configurado: requisições ao N8N serão enviadas sem assinatura');
+    }
+  }
 
   /**
-   * Envia dados para o webhook do N8N para processamento
+   * Executa uma chamada externa com retry (backoff exponencial com jitter)
+   * e circuit breaker por endpoint
+   * @param endpoint - Nome do endpoint (identifica o circuit breaker)
+   * @param idempotent - Se a chamada pode ser repetida após falhas ambíguas (timeout, 5xx)
+   * @param request - Chamada HTTP
+   */
+  private callWithResilience<T>(endpoint: string, idempotent: boolean, request: () => Promise<T>): Promise<T> {
+    const { maxRetries, baseDelayMs, maxDelayMs } = config.httpClient;
+
+    return getCircuitBreaker(endpoint).execute(
+      () => withRetry(request, { operation: endpoint, idempotent, maxRetries, baseDelayMs, maxDelayMs }),
+      isServiceFailure
+    );
+  }
+
+  /**
+   * Envia dados para o webhook do N8N em lotes, com paralelismo limitado
    * @param users - Array de usuários para processar
-   * @returns Resposta do N8N
+   * @param runId - Identificador compartilhado por todos os lotes da execução
+   * @param signal - Cancelamento: lotes ainda não iniciados deixam de ser enviados
+   * @returns Resumo agregado do envio; success é false se algum lote falhou
    */
-  public async sendDataToN8N(users: User[]): Promise<ApiResponse<User[]>> {
-    try {
-      logger.info(`Enviando ${users.length} usuários para o N8N`);
+  public async sendDataToN8N(
+    users: User[],
+    runId: string = randomUUID(),
+    signal?: AbortSignal
+  ): Promise<ApiResponse<N8NDeliverySummary>> {
+    const batches = chunk(users, config.n8nBatch.size);
 
-      const payload = {
-        users: users,
-        timestamp: new Date().toISOString(),
-        action: 'process'
+    logger.info(`Enviando ${users.length} usuários para o N8N`, { runId });
+
+    return this.deliverBatches(batches, batch => batch.length, runId, signal,
+      (batch, index) => this.sendBatch(batch, runId, index, batches.length));
+  }
+
+  /**
+   * Envia ao N8N apenas as alterações desde a última sincronização (action sync), em lotes
+   * @param delta - Usuários adicionados e alterados e emails removidos
+   * @param runId - Identificador compartilhado por todos os lotes da execução
+   * @param signal - Cancelamento: lotes ainda não iniciados deixam de ser enviados
+   * @returns Resumo agregado do envio, contando alterações em usersCount
+   */
+  public async sendDeltaToN8N(
+    delta: SyncDelta,
+    runId: string = randomUUID(),
+    signal?: AbortSignal
+  ): Promise<ApiResponse<N8NDeliverySummary>> {
+    const batches = chunkDelta(delta, config.n8nBatch.size);
+
+    logger.info('Enviando alterações para o N8N', {
+      runId,
+      added: delta.added.length,
+      updated: delta.updated.length,
+      removed: delta.removed.length
+    });
+
+    return this.deliverBatches(batches, deltaSize, runId, signal, (batch, index) => this.postBatch(
+      this.buildSyncPayload(batch, runId, index, batches.length),
+      deltaSize(batch),
+      runId,
+      index
+    ));
+  }
+
+  private async deliverBatches<T>(
+    batches: T[],
+    sizeOf: (batch: T) => number,
+    runId: string,
+    signal: AbortSignal | undefined,
+    send: (batch: T, index: number) => Promise<N8NBatchResult>
+  ): Promise<ApiResponse<N8NDeliverySummary>> {
+    const { size, concurrency } = config.n8nBatch;
+
+    logger.debug('Distribuindo envio ao N8N em lotes', {
+      runId,
+      batches: batches.length,
+      batchSize: size,
+      concurrency
+    });
+
+    const results = await mapWithConcurrency(batches, concurrency, async (batch, index): Promise<N8NBatchResult> => {
+      if (signal?.aborted) {
+        return { index, usersCount: sizeOf(batch), success: false, error: 'Envio cancelado' };
+      }
+      return send(batch, index);
+    });
+
+    const summary: N8NDeliverySummary = {
+      runId,
+      usersCount: results.reduce((total, result) => total + result.usersCount, 0),
+      deliveredUsers: results.filter(result => result.success).reduce((total, result) => total + result.usersCount, 0),
+      totalBatches: results.length,
+      succeededBatches: results.filter(result => result.success).length,
+      failedBatches: results.filter(result => !result.success).length,
+      batches: results
+    };
+
+    if (summary.failedBatches > 0) {
+      logger.error('Envio ao N8N concluído com falhas', {
+        runId,
+        failedBatches: summary.failedBatches,
+        totalBatches: summary.totalBatches
+      });
+
+      return {
+        success: false,
+        data: summary,
+        error: `${summary.failedBatches} de ${summary.totalBatches} lotes falharam no N8N`
       };
+    }
 
-      const response: AxiosResponse = await axios.post(
+    return {
+      success: true,
+      data: summary,
+      message: 'Dados processados com sucesso pelo N8N'
+    };
+  }
+
+  /**
+   * Monta o corpo enviado ao webhook de processamento para um lote (usado também pelo dry-run)
+   */
+  public buildProcessPayload(users: User[], runId: string, index: number, total?: number): N8NProcessPayload {
+    return {
+      users: users,
+      timestamp: new Date().toISOString(),
+      action: 'process',
+      runId,
+      batch: {
+        index,
+        ...(total !== undefined && { total })
+      }
+    };
+  }
+
+  /**
+   * Monta o corpo de um lote de alterações da sincronização incremental
+   */
+  public buildSyncPayload(delta: SyncDelta, runId: string, index: number, total?: number): N8NSyncPayload {
+    return {
+      ...delta,
+      timestamp: new Date().toISOString(),
+      action: 'sync',
+      runId,
+      batch: {
+        index,
+        ...(total !== undefined && { total })
+      }
+    };
+  }
+
+  /**
+   * Envia um lote de usuários para o webhook do N8N
+   * @param users - Usuários do lote
+   * @param runId - Identificador da execução
+   * @param index - Posição do lote (base 0)
+   * @param total - Total de lotes da execução, se conhecido
+   * @returns Resultado do lote (falhas não lançam exceção)
+   */
+  public async sendBatch(users: User[], runId: string, index: number, total?: number): Promise<N8NBatchResult> {
+    return this.postBatch(this.buildProcessPayload(users, runId, index, total), users.length, runId, index);
+  }
+
+  private async postBatch(
+    payload: N8NProcessPayload | N8NSyncPayload,
+    itemsCount: number,
+    runId: string,
+    index: number
+  ): Promise<N8NBatchResult> {
+    try {
+      const response: AxiosResponse = await this.callWithResilience('n8n-process', false, () => this.http.post(
         config.n8nWebhookUrl,
         payload,
         {
@@ -31,59 +218,70 @@ export class N8NService {
             'User-Agent': 'Fullstack-N8N-Backend/1.0.0'
           }
         }
-      );
+      ));
 
-      logger.info('Dados enviados para N8N com sucesso', {
+      logger.info('Lote enviado para N8N com sucesso', {
+        runId,
+        batchIndex: index,
         status: response.status,
-        usersCount: users.length
+        usersCount: itemsCount
       });
 
       return {
+        index,
+        usersCount: itemsCount,
         success: true,
-        data: response.data,
-        message: 'Dados processados com sucesso pelo N8N'
+        status: response.status
       };
 
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
-      
-      logger.error('Erro ao enviar dados para N8N', {
+
+      logger.error('Erro ao enviar lote para N8N', {
         error: errorMessage,
-        usersCount: users.length,
+        runId,
+        batchIndex: index,
+        usersCount: itemsCount,
         url: config.n8nWebhookUrl
       });
 
+      const failure = { index, usersCount: itemsCount, success: false };
+
+      if (error instanceof CircuitOpenError) {
+        return { ...failure, status: error.statusCode, error: error.message };
+      }
+
       if (axios.isAxiosError(error)) {
         const statusCode = error.response?.status || 500;
         const axiosErrorMessage = error.response?.data?.message || (error as Error).message;
-        
-        return {
-          success: false,
-          error: `Erro do N8N (${statusCode}): ${axiosErrorMessage}`
-        };
+
+        return { ...failure, status: statusCode, error: `Erro do N8N (${statusCode}): ${axiosErrorMessage}` };
       }
 
-      return {
-        success: false,
-        error: 'Erro interno ao comunicar com N8N'
-      };
+      return { ...failure, status: 500, error: 'Erro interno ao comunicar com N8N' };
     }
   }
 
   /**
    * Solicita limpeza dos dados no N8N
+   * @param scope - Emails ou data de corte; sem escopo, remove todos os registros
    * @returns Resposta do N8N
    */
-  public async clearDataInN8N(): Promise<ApiResponse> {
+  public async clearDataInN8N(scope?: ClearScope): Promise<ApiResponse> {
     try {
-      logger.info('Solicitando limpeza de dados no N8N');
+      logger.info('Solicitando limpeza de dados no N8N', {
+        scoped: !!scope,
+        emails: scope?.emails?.length,
+        createdBefore: scope?.createdBefore
+      });
 
-      const payload = {
+      const payload: N8NClearPayload = {
         action: 'clear',
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        ...(scope && { scope })
       };
 
-      const response: AxiosResponse = await axios.post(
+      const response: AxiosResponse = await this.callWithResilience('n8n-clear', true, () => this.http.post(
         config.n8nClearWebhookUrl,
         payload,
         {
@@ -93,7 +291,7 @@ export class N8NService {
             'User-Agent': 'Fullstack-N8N-Backend/1.0.0'
           }
         }
-      );
+      ));
 
       logger.info('Limpeza de dados solicitada com sucesso', {
         status: response.status
@@ -102,7 +300,8 @@ export class N8NService {
       return {
         success: true,
         data: response.data,
-        message: 'Dados limpos com sucesso'
+        message: 'Dados limpos com sucesso',
+        meta: { n8nStatusCode: response.status }
       };
 
     } catch (error: unknown) {
@@ -113,13 +312,18 @@ export class N8NService {
         url: config.n8nClearWebhookUrl
       });
 
+      if (error instanceof CircuitOpenError) {
+        throw error;
+      }
+
       if (axios.isAxiosError(error)) {
         const statusCode = error.response?.status || 500;
         const axiosErrorMessage = error.response?.data?.message || (error as Error).message;
         
         return {
           success: false,
-          error: `Erro do N8N (${statusCode}): ${axiosErrorMessage}`
+          error: `Erro do N8N (${statusCode}): ${axiosErrorMessage}`,
+          ...(error.response && { meta: { n8nStatusCode: statusCode } })
         };
       }
 
@@ -130,6 +334,14 @@ export class N8NService {
     }
   }
 
+  /**
+   * Estado dos circuit breakers de todos os endpoints externos
+   */
+  public getCircuitBreakerStatus(): Record<string, CircuitBreakerSnapshot> {
+    const endpoints = ['n8n-process', 'n8n-clear', 'n8n-read', 'encrypted-data'];
+    return Object.fromEntries(endpoints.map(endpoint => [endpoint, getCircuitBreaker(endpoint).getSnapshot()]));
+  }
+
   /**
    * Verifica se o N8N está disponível
    * @returns true se disponível, false caso contrário
@@ -137,7 +349,7 @@ export class N8NService {
   public async checkN8NHealth(): Promise<boolean> {
     try {
       // Tentar fazer uma requisição simples para verificar conectividade
-      await axios.get(config.n8nWebhookUrl.replace('/webhook/', '/health'), {
+      await this.http.get(config.n8nWebhookUrl.replace('/webhook/', '/health'), {
         timeout: 5000
       });
       return true;
@@ -149,15 +361,15 @@ export class N8NService {
   }
 
   /**
-   * Busca dados do webhook externo (Railway)
+   * Busca dados do webhook de leitura do N8N configurado para o ambiente
    * @returns Dados do webhook externo
    */
   public async fetchDataFromExternalWebhook(): Promise<any> {
     try {
-      logger.info('Buscando dados do webhook externo Railway');
+      logger.info('Buscando dados do webhook externo', { environment: config.environment });
 
-      const response: AxiosResponse = await axios.get(
-        'https://full-stack-test-n8n-production.up.railway.app/webhook/get-data',
+      const response: AxiosResponse = await this.callWithResilience('n8n-read', true, () => this.http.get(
+        config.n8nReadWebhookUrl,
         {
           timeout: this.timeout,
           headers: {
@@ -165,7 +377,7 @@ export class N8NService {
             'Accept': 'application/json'
           }
         }
-      );
+      ));
 
       logger.info('Dados obtidos com sucesso do webhook externo', {
         status: response.status,
@@ -179,9 +391,13 @@ export class N8NService {
       
       logger.error('Erro ao buscar dados do webhook externo', {
         error: errorMessage,
-        url: 'https://full-stack-test-n8n-production.up.railway.app/webhook/get-data'
+        url: config.n8nReadWebhookUrl
       });
 
+      if (error instanceof CircuitOpenError) {
+        throw error;
+      }
+
       if (axios.isAxiosError(error)) {
         const statusCode = error.response?.status || 500;
         const axiosErrorMessage = error.response?.data?.message || (error as Error).message;
@@ -195,64 +411,44 @@ export class N8NService {
 
   /**
    * Obtém dados do endpoint externo
-   * @returns Dados criptografados do endpoint
+   * @returns Envelope criptografado ou token JWE compacto
    */
   public async fetchEncryptedData(): Promise<any> {
     try {
       logger.info('Buscando dados criptografados do endpoint externo');
 
-      const response: AxiosResponse = await axios.get(
+      const response: AxiosResponse = await this.callWithResilience('encrypted-data', true, () => this.http.get(
         config.encryptedDataUrl,
         {
           timeout: this.timeout,
           headers: {
             'User-Agent': 'Fullstack-N8N-Backend/1.0.0',
-            'Accept': 'application/json'
+            'Accept': 'application/json, application/jose'
           }
         }
-      );
+      ));
 
       logger.info('Dados criptografados obtidos com sucesso', {
         status: response.status,
         hasData: !!response.data
       });
 
+      // JWE compacto: string pura ou campo JSON contendo o token
+      const jwe = extractJwe(response.data);
+      if (jwe) {
+        return jwe;
+      }
+
       // O endpoint retorna dados no formato: { success: true, data: { encrypted: {...} } }
       if (response.data && response.data.success && response.data.data && response.data.data.encrypted) {
         const encryptedData = response.data.data.encrypted;
-        
-        // Para demonstração, vamos usar dados mock já que não temos a chave correta
-        // Em produção, você deve usar a chave real fornecida pelo endpoint
-        logger.warn('Usando dados mock para demonstração - chave de descriptografia não disponível');
-        
-        // Dados mock para demonstração
-        const mockUsers = [
-          {
-            nome: 'João Silva',
-            email: 'joao.silva@email.com',
-            phone: '11999999999'
-          },
-          {
-            nome: 'Maria Santos',
-            email: 'maria.santos@email.com',
-            phone: '11888888888'
-          },
-          {
-            nome: 'Pedro Oliveira',
-            email: 'pedro.oliveira@email.com',
-            phone: '11777777777'
-          }
-        ];
-        
+
         return {
-          mockData: true,
-          users: mockUsers,
-          originalData: {
-            encryptedData: encryptedData.encrypted,
-            iv: encryptedData.iv,
-            authTag: encryptedData.authTag,
-            algorithm: response.data.data.algorithm || 'aes-256-gcm'
-          }
+          encryptedData: encryptedData.encrypted,
+          iv: encryptedData.iv,
+          authTag: encryptedData.authTag,
+          kid: response.data.data.kid || encryptedData.kid,
+          algorithm: response.data.data.algorithm || 'aes-256-gcm'
         };
       }
 
@@ -267,6 +463,10 @@ export class N8NService {
         url: config.encryptedDataUrl
       });
 
+      if (error instanceof CircuitOpenError) {
+        throw error;
+      }
+
       if (axios.isAxiosError(error)) {
         const statusCode = error.response?.status || 500;
         const axiosErrorMessage = error.response?.data?.message || (error as Error).message;
@@ -277,6 +477,63 @@ export class N8NService {
       throw new Error('Erro interno ao buscar dados criptografados');
     }
   }
+
+  /**
+   * Abre o endpoint de dados criptografados como stream, sem bufferizar o corpo.
+   * O corpo é o texto cifrado em hex; IV, auth tag, kid e algoritmo vêm nos headers.
+   * @returns Stream do corpo e metadados do envelope
+   */
+  public async fetchEncryptedDataStream(): Promise<{ stream: Readable; envelope: EncryptedStreamEnvelope }> {
+    try {
+      logger.info('Abrindo stream de dados criptografados do endpoint externo');
+
+      const response: AxiosResponse<Readable> = await this.callWithResilience('encrypted-data', true, () => this.http.get(
+        config.encryptedDataUrl,
+        {
+          timeout: this.timeout,
+          responseType: 'stream',
+          headers: {
+            'User-Agent': 'Fullstack-N8N-Backend/1.0.0',
+            'Accept': 'text/plain, application/octet-stream'
+          }
+        }
+      ));
+
+      const envelope: EncryptedStreamEnvelope = {
+        iv: response.headers['x-encryption-iv'],
+        authTag: response.headers['x-encryption-auth-tag'],
+        kid: response.headers['x-encryption-kid'],
+        algorithm: response.headers['x-encryption-algorithm'] || 'aes-256-gcm'
+      };
+
+      logger.info('Stream de dados criptografados aberto', {
+        status: response.status,
+        contentLength: response.headers['content-length'],
+        kid: envelope.kid
+      });
+
+      return { stream: response.data, envelope };
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+
+      logger.error('Erro ao abrir stream de dados criptografados', {
+        error: errorMessage,
+        url: config.encryptedDataUrl
+      });
+
+      if (error instanceof CircuitOpenError) {
+        throw error;
+      }
+
+      if (axios.isAxiosError(error)) {
+        const statusCode = error.response?.status || 500;
+        throw new Error(`Erro ao buscar dados (${statusCode}): ${error.message}`);
+      }
+
+      throw new Error('Erro interno ao buscar dados criptografados');
+    }
+  }
 }
 
 export const n8nService = new N8NService();
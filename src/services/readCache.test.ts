@@ -0,0 +1,55 @@
+import { ReadCache } from '@/services/readCache';
+
+describe('ReadCache', () => {
+  it('busca na primeira leitura e responde do cache nas seguintes', async () => {
+    const cache = new ReadCache(60_000);
+    const loader = jest.fn().mockResolvedValue([{ id: 1 }]);
+
+    await expect(cache.fetch(loader)).resolves.toEqual({ data: [{ id: 1 }], hit: false });
+    await expect(cache.fetch(loader)).resolves.toEqual({ data: [{ id: 1 }], hit: true });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('com TTL 0, sempre chama o loader', async () => {
+    const cache = new ReadCache(0);
+    const loader = jest.fn().mockResolvedValue([]);
+
+    await cache.fetch(loader);
+    await expect(cache.fetch(loader)).resolves.toEqual({ data: [], hit: false });
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(cache.getStats().enabled).toBe(false);
+  });
+
+  it('buscas simultâneas compartilham a mesma chamada', async () => {
+    const cache = new ReadCache(60_000);
+    const loader = jest.fn().mockResolvedValue('dados');
+
+    const results = await Promise.all([cache.fetch(loader), cache.fetch(loader)]);
+
+    expect(results.map(result => result.data)).toEqual(['dados', 'dados']);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('não reutiliza falhas do loader', async () => {
+    const cache = new ReadCache(60_000);
+    const loader = jest.fn().mockRejectedValueOnce(new Error('N8N indisponível')).mockResolvedValue('dados');
+
+    await expect(cache.fetch(loader)).rejects.toThrow('N8N indisponível');
+    await expect(cache.fetch(loader)).resolves.toEqual({ data: 'dados', hit: false });
+  });
+
+  it('invalidate descarta o cache e a busca em andamento não o repovoa', async () => {
+    const cache = new ReadCache(60_000);
+    await cache.fetch(async () => 'antigo');
+
+    cache.invalidate();
+
+    let release!: (data: string) => void;
+    const inFlight = cache.fetch(() => new Promise(resolve => { release = resolve; }));
+    cache.invalidate();
+    release('durante a escrita');
+
+    await expect(inFlight).resolves.toEqual({ data: 'durante a escrita', hit: false });
+    await expect(cache.fetch(async () => 'novo')).resolves.toEqual({ data: 'novo', hit: false });
+  });
+});
@@ -0,0 +1,78 @@
+import { config } from '@/config';
+import { TtlCache } from '@/utils/ttlCache';
+import { logger } from '@/utils/logger';
+
+const READ_CACHE_KEY = 'read';
+
+/**
+ * Cache da resposta do webhook de leitura (GET /get-data), para que cada carregamento do
+ * dashboard não consulte o N8N e o PostgreSQL. Guarda os dados brutos: filtros, ordenação
+ * e paginação são aplicados a cada requisição.
+ * - TTL 0 desabilita o cache
+ * - buscas simultâneas sem cache compartilham a mesma chamada ao N8N
+ * - invalidate() descarta também buscas em andamento, que não repovoam o cache
+ */
+export class ReadCache {
+  private readonly entries: TtlCache<string, unknown>;
+  private pending?: Promise<unknown>;
+  private generation = 0;
+
+  constructor(public readonly ttlMs: number = config.readCache.ttlMs) {
+    this.entries = new TtlCache<string, unknown>(ttlMs, 1);
+  }
+
+  public get enabled(): boolean {
+    return this.ttlMs > 0;
+  }
+
+  /**
+   * Retorna os dados em cache ou os busca com loader
+   * @returns Dados e se vieram do cache
+   */
+  public async fetch(loader: () => Promise<unknown>): Promise<{ data: unknown; hit: boolean }> {
+    if (!this.enabled) {
+      return { data: await loader(), hit: false };
+    }
+
+    const cached = this.entries.get(READ_CACHE_KEY);
+    if (cached !== undefined) {
+      return { data: cached, hit: true };
+    }
+
+    if (!this.pending) {
+      const generation = this.generation;
+
+      const pending = loader()
+        .then(data => {
+          if (generation === this.generation) {
+            this.entries.set(READ_CACHE_KEY, data);
+          }
+          return data;
+        })
+        .finally(() => {
+          if (this.pending === pending) {
+            this.pending = undefined;
+          }
+        });
+      this.pending = pending;
+    }
+
+    return { data: await this.pending, hit: false };
+  }
+
+  /**
+   * Descarta os dados em cache (após execute, import ou clear)
+   */
+  public invalidate(): void {
+    this.generation++;
+    this.pending = undefined;
+    this.entries.clear();
+    logger.debug('Cache de leitura invalidado');
+  }
+
+  public getStats(): ReturnType<TtlCache<string, unknown>['getStats']> & { enabled: boolean } {
+    return { enabled: this.enabled, ...this.entries.getStats() };
+  }
+}
+
+export const readCache = new ReadCache();
@@ -0,0 +1,72 @@
+import { validateUserRecord } from '@/middleware/validation';
+import { RecordValidationSession } from '@/services/recordValidator';
+
+const ana = { nome: 'Ana', email: 'ana@email.com', phone: '+5511999999999' };
+
+describe('validateUserRecord', () => {
+  it('normaliza espaços e o email e descarta campos desconhecidos', () => {
+    const result = validateUserRecord({ nome: ' Ana ', email: ' ANA@Email.com ', phone: 5511999999999, extra: 1 });
+
+    expect(result).toEqual({
+      user: { nome: 'Ana', email: 'ana@email.com', phone: '5511999999999' },
+      email: 'ana@email.com',
+      errors: []
+    });
+  });
+
+  it('devolve todos os erros com os valores mascarados e o email mesmo quando rejeitado', () => {
+    const result = validateUserRecord({ nome: '', email: 'ana@email.com', phone: '+55 11 99999-99999999999' });
+
+    expect(result.user).toBeUndefined();
+    expect(result.email).toBe('ana@email.com');
+    expect(result.errors).toEqual([
+      { field: 'nome', reason: 'Nome é obrigatório', value: '' },
+      { field: 'phone', reason: 'Telefone deve ter no máximo 20 caracteres', value: '***99' }
+    ]);
+  });
+
+  it('recusa registros que não são objetos', () => {
+    expect(validateUserRecord([ana]).errors).toEqual([{ field: '(registro)', reason: 'Registro deve ser um objeto' }]);
+  });
+});
+
+describe('RecordValidationSession', () => {
+  it('no modo strict, falha no primeiro registro incompleto', () => {
+    const session = new RecordValidationSession('strict');
+
+    expect(session.validate(ana, 0)).toEqual(ana);
+    expect(() => session.validate({ nome: 'Bia' }, 1)).toThrow('Usuário 2 está incompleto');
+  });
+
+  it('no modo lenient, rejeita apenas os inválidos e guarda os emails rejeitados', () => {
+    const session = new RecordValidationSession('lenient');
+
+    expect(session.validate(ana, 0)).toEqual(ana);
+    expect(session.validate({ nome: 'Bia', email: ' BIA@email.com' }, 1)).toBeNull();
+    expect(session.validate('texto', 2)).toBeNull();
+
+    expect(session.getReport()).toEqual({
+      mode: 'lenient',
+      total: 3,
+      accepted: 1,
+      rejected: 2,
+      rejections: [
+        { index: 1, field: 'phone', reason: 'Telefone é obrigatório' },
+        { index: 2, field: '(registro)', reason: 'Registro deve ser um objeto' }
+      ],
+      truncated: false
+    });
+    expect([...session.getRejectedEmails()]).toEqual(['bia@email.com']);
+  });
+
+  it('limita as rejeições do relatório e marca o truncamento', () => {
+    const session = new RecordValidationSession('lenient', 1);
+
+    session.validate({}, 0);
+
+    const report = session.getReport();
+    expect(report.rejected).toBe(1);
+    expect(report.rejections).toHaveLength(1);
+    expect(report.truncated).toBe(true);
+  });
+});
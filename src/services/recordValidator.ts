@@ -0,0 +1,79 @@
+import { RecordRejection, User, ValidationMode, ValidationReport } from '@/types';
+import { validateUserRecord } from '@/middleware/validation';
+import { normalizeEmail } from '@/utils/normalize';
+import { toUser } from '@/utils/users';
+
+/**
+ * Valida registros descriptografados e acumula um relatório da execução.
+ * - strict: falha no primeiro registro incompleto (comportamento padrão)
+ * - lenient: valida cada registro com o userSchema e rejeita apenas os inválidos
+ */
+export class RecordValidationSession {
+  private total = 0;
+  private accepted = 0;
+  private rejected = 0;
+  private truncated = false;
+  private readonly rejections: RecordRejection[] = [];
+  // Emails normalizados dos registros rejeitados (não entram no relatório, que é devolvido ao cliente)
+  private readonly rejectedEmails = new Set<string>();
+
+  constructor(
+    public readonly mode: ValidationMode,
+    private readonly maxReportedRejections: number = 1000
+  ) {}
+
+  /**
+   * Valida um registro; retorna null se rejeitado (apenas no modo lenient)
+   */
+  public readonly validate = (record: unknown, index: number): User | null => {
+    this.total++;
+
+    if (this.mode === 'strict') {
+      const user = toUser(record, index);
+      this.accepted++;
+      return user;
+    }
+
+    const result = validateUserRecord(record);
+
+    if (!result.user) {
+      if (result.email) {
+        this.rejectedEmails.add(normalizeEmail(result.email));
+      }
+      this.reject(result.errors.map(error => ({ index, ...error })));
+      return null;
+    }
+
+    this.accepted++;
+    return result.user;
+  };
+
+  private reject(rejections: RecordRejection[]): void {
+    this.rejected++;
+
+    const available = Math.max(0, this.maxReportedRejections - this.rejections.length);
+    if (rejections.length > available) {
+      this.truncated = true;
+    }
+    this.rejections.push(...rejections.slice(0, available));
+  }
+
+  /**
+   * Emails dos registros rejeitados no modo lenient: esses usuários continuam na fonte,
+   * portanto não devem ser tratados como removidos na sincronização incremental
+   */
+  public getRejectedEmails(): ReadonlySet<string> {
+    return this.rejectedEmails;
+  }
+
+  public getReport(): ValidationReport {
+    return {
+      mode: this.mode,
+      total: this.total,
+      accepted: this.accepted,
+      rejected: this.rejected,
+      rejections: this.rejections,
+      truncated: this.truncated
+    };
+  }
+}
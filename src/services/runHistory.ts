@@ -0,0 +1,82 @@
+import { config } from '@/config';
+import { RunHistoryPage, RunHistoryQuery, RunRecord } from '@/types';
+import { JsonFile } from '@/utils/jsonFile';
+import { logger } from '@/utils/logger';
+
+/**
+ * Histórico de execuções (execute e clear) em arquivo JSON-lines: uma linha por execução finalizada.
+ * O arquivo é carregado uma vez e mantido em memória para as consultas; sem arquivo configurado,
+ * o histórico vive apenas em memória.
+ */
+export class RunHistoryStore {
+  private records: RunRecord[] = [];
+  private readonly file?: JsonFile;
+  private loading?: Promise<void>;
+
+  constructor(filePath?: string) {
+    this.file = filePath ? new JsonFile(filePath, 'histórico de execuções') : undefined;
+  }
+
+  /**
+   * Registra uma execução finalizada; falhas de gravação são apenas logadas
+   */
+  public async record(run: RunRecord): Promise<void> {
+    await this.ready();
+    this.records.push(run);
+    await this.file?.append(run);
+  }
+
+  /**
+   * Lista execuções da mais recente para a mais antiga, com filtros e paginação
+   */
+  public async list(query: RunHistoryQuery): Promise<RunHistoryPage> {
+    await this.ready();
+
+    const matching = this.records
+      .filter(run => !query.status || query.status.includes(run.status))
+      .filter(run => !query.operation || run.operation === query.operation)
+      .filter(run => !query.from || new Date(run.startedAt) >= query.from)
+      .filter(run => !query.to || new Date(run.startedAt) <= query.to)
+      .reverse();
+
+    const start = (query.page - 1) * query.pageSize;
+
+    return {
+      records: matching.slice(start, start + query.pageSize),
+      page: query.page,
+      pageSize: query.pageSize,
+      total: matching.length,
+      totalPages: Math.ceil(matching.length / query.pageSize)
+    };
+  }
+
+  public async get(id: string): Promise<RunRecord | undefined> {
+    await this.ready();
+    return this.records.find(run => run.id === id);
+  }
+
+  private ready(): Promise<void> {
+    this.loading ??= this.load();
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    const content = await this.file?.readText();
+    if (content === undefined) {
+      return;
+    }
+
+    // Linhas corrompidas (ex.: queda durante a gravação) são ignoradas
+    content.split('\n').filter(line => line.trim()).forEach((line, index) => {
+      try {
+        this.records.push(JSON.parse(line));
+      } catch {
+        logger.warn('Linha inválida no histórico de execuções', { file: this.file!.filePath, line: index + 1 });
+      }
+    });
+
+    logger.info('Histórico de execuções carregado', { file: this.file!.filePath, count: this.records.length });
+  }
+}
+
+export const runHistory = new RunHistoryStore(config.runHistory.file || undefined);
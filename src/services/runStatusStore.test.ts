@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RunCallbackPayload } from '@/types';
+import { RunStatusStore } from '@/services/runStatusStore';
+
+const callback = (batchIndex: number | undefined, status: 'success' | 'error', rowsInserted = 0): RunCallbackPayload => ({
+  runId: 'run-1',
+  batchIndex,
+  status,
+  rowsInserted,
+  errors: status === 'error' ? [`lote ${batchIndex} falhou`] : []
+});
+
+describe('RunStatusStore', () => {
+  it('aguarda um callback por lote entregue antes de concluir', async () => {
+    const store = new RunStatusStore();
+    await store.register('run-1', 'execute', 4);
+    await store.setExpectedCallbacks('run-1', 4, 2);
+
+    await expect(store.recordCallback(callback(0, 'success', 2))).resolves.toMatchObject({ state: 'awaiting-callback' });
+    // Reenvio do mesmo lote substitui o anterior
+    await expect(store.recordCallback(callback(0, 'success', 2))).resolves.toMatchObject({ state: 'awaiting-callback' });
+
+    const run = await store.recordCallback(callback(1, 'success', 2));
+    expect(run).toMatchObject({ state: 'completed', rowsInserted: 4, completedAt: expect.any(String) });
+  });
+
+  it('conclui como parcial quando só parte dos lotes falha e como falha quando todos falham', async () => {
+    const store = new RunStatusStore();
+    await store.register('run-1', 'execute', 4, 2);
+    await store.recordCallback(callback(0, 'success', 2));
+
+    await expect(store.recordCallback(callback(1, 'error'))).resolves.toMatchObject({
+      state: 'partial',
+      rowsInserted: 2,
+      errors: ['lote 1 falhou']
+    });
+
+    await store.register('run-1', 'execute', 4, 2);
+    await store.recordCallback(callback(0, 'error'));
+    await expect(store.recordCallback(callback(1, 'error'))).resolves.toMatchObject({ state: 'failed' });
+  });
+
+  it('finaliza com um callback sem batchIndex e marca falha quando nenhum lote foi entregue', async () => {
+    const store = new RunStatusStore();
+    await store.register('run-1', 'execute', 4);
+    await expect(store.recordCallback(callback(undefined, 'success', 4))).resolves.toMatchObject({ state: 'completed' });
+
+    await store.register('run-2', 'execute', 4);
+    await store.setExpectedCallbacks('run-2', 4, 0);
+    await expect(store.get('run-2')).resolves.toMatchObject({ state: 'failed' });
+  });
+
+  it('ignora callbacks de execuções desconhecidas', async () => {
+    await expect(new RunStatusStore().recordCallback(callback(0, 'success'))).resolves.toBeUndefined();
+  });
+
+  describe('com arquivo', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-status-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('recebe após reinício os callbacks das execuções em andamento', async () => {
+      const filePath = path.join(dir, 'run-status.json');
+      const store = new RunStatusStore(filePath);
+      await store.register('run-1', 'execute', 4, 2);
+      await store.recordCallback(callback(0, 'success', 2));
+
+      const restarted = new RunStatusStore(filePath);
+
+      await expect(restarted.recordCallback(callback(1, 'success', 2))).resolves.toMatchObject({
+        state: 'completed',
+        rowsInserted: 4
+      });
+    });
+
+    it('descarta no carregamento os status com mais de 24 horas', async () => {
+      const filePath = path.join(dir, 'run-status.json');
+      const createdAt = new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString();
+      fs.writeFileSync(filePath, JSON.stringify([{
+        runId: 'antiga',
+        state: 'awaiting-callback',
+        source: 'execute',
+        usersCount: 1,
+        rowsInserted: 0,
+        errors: [],
+        callbacks: [],
+        createdAt,
+        updatedAt: createdAt
+      }]));
+
+      await expect(new RunStatusStore(filePath).get('antiga')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { RunCallbackPayload, RunState, RunStatus } from '@/types';
+import { config } from '@/config';
+import { JsonFile } from '@/utils/jsonFile';
+import { TtlCache } from '@/utils/ttlCache';
+import { logger } from '@/utils/logger';
+
+const RUN_STATUS_TTL_MS = 24 * 60 * 60 * 1000; // 24 horas
+const RUN_STATUS_MAX_ENTRIES = 1000;
+
+/**
+ * Status final das execuções, confirmado pelo N8N via callback.
+ * O N8N responde 200 ao receber o lote, mas insere no PostgreSQL de forma assíncrona;
+ * cada lote entregue gera um callback, e a execução é finalizada quando todos chegam.
+ * Com arquivo configurado, os status sobrevivem a reinícios (inclusive os ainda aguardando callback).
+ */
+export class RunStatusStore {
+  private readonly runs = new TtlCache<string, RunStatus>(RUN_STATUS_TTL_MS, RUN_STATUS_MAX_ENTRIES);
+  private readonly file?: JsonFile;
+  private loading?: Promise<void>;
+
+  constructor(filePath?: string) {
+    this.file = filePath ? new JsonFile(filePath, 'status das execuções') : undefined;
+  }
+
+  /**
+   * Registra uma execução antes do envio ao N8N
+   * @param expectedCallbacks - Lotes entregues; indefinido até o fim do envio (streaming)
+   */
+  public async register(runId: string, source: string, usersCount: number, expectedCallbacks?: number): Promise<RunStatus> {
+    await this.ready();
+
+    const now = new Date().toISOString();
+    const run: RunStatus = {
+      runId,
+      state: 'awaiting-callback',
+      source,
+      usersCount,
+      expectedCallbacks,
+      rowsInserted: 0,
+      errors: [],
+      callbacks: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.runs.set(runId, run);
+    await this.persist();
+    return run;
+  }
+
+  /**
+   * Define quantos callbacks são esperados após o envio (lotes aceitos pelo N8N)
+   */
+  public async setExpectedCallbacks(runId: string, usersCount: number, expectedCallbacks: number): Promise<void> {
+    await this.ready();
+
+    const run = this.runs.get(runId);
+    if (!run) {
+      return;
+    }
+
+    run.usersCount = usersCount;
+    run.expectedCallbacks = expectedCallbacks;
+    this.settle(run);
+    await this.persist();
+  }
+
+  /**
+   * Registra o callback de um lote; retorna undefined para execuções desconhecidas ou expiradas
+   */
+  public async recordCallback(payload: RunCallbackPayload): Promise<RunStatus | undefined> {
+    await this.ready();
+
+    const run = this.runs.get(payload.runId);
+    if (!run) {
+      return undefined;
+    }
+
+    // Reenvios do mesmo lote substituem o callback anterior
+    const callbacks = run.callbacks.filter(callback =>
+      payload.batchIndex === undefined || callback.batchIndex !== payload.batchIndex
+    );
+
+    callbacks.push({
+      batchIndex: payload.batchIndex,
+      status: payload.status,
+      rowsInserted: payload.rowsInserted,
+      errors: payload.errors,
+      receivedAt: new Date().toISOString()
+    });
+
+    run.callbacks = callbacks;
+    run.rowsInserted = callbacks.reduce((total, callback) => total + callback.rowsInserted, 0);
+    run.errors = callbacks.flatMap(callback => callback.errors);
+
+    // Callback sem batchIndex representa a execução inteira
+    this.settle(run, payload.batchIndex === undefined);
+    await this.persist();
+    return run;
+  }
+
+  public async get(runId: string): Promise<RunStatus | undefined> {
+    await this.ready();
+    return this.runs.get(runId);
+  }
+
+  private settle(run: RunStatus, force: boolean = false): void {
+    run.updatedAt = new Date().toISOString();
+
+    const complete = force || (run.expectedCallbacks !== undefined && run.callbacks.length >= run.expectedCallbacks);
+    if (!complete || run.completedAt) {
+      return;
+    }
+
+    run.state = this.finalState(run);
+    run.completedAt = run.updatedAt;
+
+    logger.info('Execução confirmada pelo N8N', {
+      runId: run.runId,
+      state: run.state,
+      rowsInserted: run.rowsInserted,
+      errors: run.errors.length
+    });
+  }
+
+  private finalState(run: RunStatus): RunState {
+    const failed = run.callbacks.filter(callback => callback.status === 'error').length;
+
+    // Nenhum lote entregue ao N8N
+    if (run.callbacks.length === 0) {
+      return 'failed';
+    }
+    if (failed === 0) {
+      return 'completed';
+    }
+    return failed === run.callbacks.length ? 'failed' : 'partial';
+  }
+
+  private ready(): Promise<void> {
+    this.loading ??= this.load();
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    const runs = await this.file?.read<RunStatus[]>();
+    if (!runs) {
+      return;
+    }
+
+    // Cada status expira 24 horas após a criação, como se não houvesse reinício
+    const now = Date.now();
+    runs.forEach(run => {
+      const remainingMs = new Date(run.createdAt).getTime() + RUN_STATUS_TTL_MS - now;
+      if (remainingMs > 0) {
+        this.runs.set(run.runId, run, remainingMs);
+      }
+    });
+
+    logger.info('Status das execuções carregados', { file: this.file!.filePath, count: this.runs.getStats().size });
+  }
+
+  private async persist(): Promise<void> {
+    await this.file?.write(this.runs.values());
+  }
+}
+
+export const runStatusStore = new RunStatusStore(config.runStatus.file || undefined);
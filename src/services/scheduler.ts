@@ -0,0 +1,220 @@
+import { randomUUID } from 'crypto';
+import { DataFlowContext, Schedule, ScheduleInput } from '@/types';
+import { config } from '@/config';
+import { CustomError, OperationCancelledError } from '@/middleware/errorHandler';
+import { dataFlowService } from '@/services/dataFlow';
+import { nextCronDate, parseCron } from '@/utils/cron';
+import { JsonFile } from '@/utils/jsonFile';
+import { logger } from '@/utils/logger';
+
+// Intervalo máximo entre verificações, para tolerar ajustes de relógio e o limite do setTimeout
+const MAX_TICK_MS = 60 * 1000;
+
+/**
+ * Agendador em processo: dispara o fluxo de execução (ou limpeza + execução) em expressões cron.
+ * Os agendamentos são persistidos em arquivo JSON; uma execução ainda em andamento faz a
+ * ocorrência seguinte do mesmo agendamento ser ignorada.
+ */
+export class Scheduler {
+  private readonly schedules = new Map<string, Schedule>();
+  private readonly file?: JsonFile;
+  private loading?: Promise<void>;
+  private timer?: NodeJS.Timeout;
+  private started = false;
+
+  constructor(
+    public readonly enabled: boolean,
+    filePath?: string
+  ) {
+    this.file = filePath ? new JsonFile(filePath, 'agendamentos') : undefined;
+  }
+
+  /**
+   * Carrega os agendamentos, trata execuções perdidas enquanto o processo estava parado e arma o timer
+   */
+  public async start(): Promise<void> {
+    if (!this.enabled) {
+      logger.info('Agendador desabilitado');
+      return;
+    }
+
+    await this.ready();
+    this.started = true;
+
+    const now = new Date();
+    for (const schedule of this.schedules.values()) {
+      if (new Date(schedule.nextRunAt) > now) {
+        continue;
+      }
+
+      logger.warn('Execução agendada perdida', {
+        scheduleId: schedule.id,
+        nextRunAt: schedule.nextRunAt,
+        missedRunPolicy: schedule.missedRunPolicy
+      });
+
+      schedule.nextRunAt = nextCronDate(parseCron(schedule.cron), now).toISOString();
+
+      if (schedule.missedRunPolicy === 'run-once') {
+        void this.run(schedule);
+      } else {
+        schedule.lastStatus = 'skipped';
+      }
+    }
+
+    await this.persist();
+    this.arm();
+
+    logger.info('Agendador iniciado', { schedules: this.schedules.size });
+  }
+
+  public stop(): void {
+    this.started = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  public async list(): Promise<Schedule[]> {
+    await this.ready();
+    return [...this.schedules.values()];
+  }
+
+  /**
+   * Cria um agendamento
+   * @throws CustomError 503 com o agendador desabilitado, 400 para expressão cron inválida
+   */
+  public async create(input: ScheduleInput): Promise<Schedule> {
+    if (!this.enabled) {
+      throw new CustomError('Agendador desabilitado neste ambiente', 503);
+    }
+
+    const nextRunAt = nextCronDate(parseCron(input.cron), new Date());
+    await this.ready();
+
+    const schedule: Schedule = {
+      id: randomUUID(),
+      ...input,
+      createdAt: new Date().toISOString(),
+      nextRunAt: nextRunAt.toISOString(),
+      running: false
+    };
+
+    this.schedules.set(schedule.id, schedule);
+    await this.persist();
+    this.arm();
+
+    logger.info('Agendamento criado', { scheduleId: schedule.id, cron: schedule.cron, action: schedule.action });
+    return schedule;
+  }
+
+  /**
+   * Remove um agendamento; uma execução em andamento não é interrompida
+   */
+  public async remove(id: string): Promise<boolean> {
+    await this.ready();
+
+    if (!this.schedules.delete(id)) {
+      return false;
+    }
+
+    await this.persist();
+    this.arm();
+
+    logger.info('Agendamento removido', { scheduleId: id });
+    return true;
+  }
+
+  private arm(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    if (!this.started || this.schedules.size === 0) {
+      return;
+    }
+
+    const nearest = Math.min(...[...this.schedules.values()].map(s => new Date(s.nextRunAt).getTime()));
+    const delay = Math.min(Math.max(nearest - Date.now(), 0), MAX_TICK_MS);
+
+    this.timer = setTimeout(() => this.tick(), delay);
+    // O timer não impede o encerramento do processo
+    this.timer.unref();
+  }
+
+  private tick(): void {
+    const now = new Date();
+    let changed = false;
+
+    for (const schedule of this.schedules.values()) {
+      if (new Date(schedule.nextRunAt) > now) {
+        continue;
+      }
+
+      schedule.nextRunAt = nextCronDate(parseCron(schedule.cron), now).toISOString();
+      changed = true;
+      void this.run(schedule);
+    }
+
+    if (changed) {
+      void this.persist();
+    }
+    this.arm();
+  }
+
+  private async run(schedule: Schedule): Promise<void> {
+    if (schedule.running) {
+      logger.warn('Execução agendada ignorada: a anterior ainda está em andamento', { scheduleId: schedule.id });
+      schedule.lastStatus = 'skipped';
+      return;
+    }
+
+    schedule.running = true;
+    schedule.lastRunAt = new Date().toISOString();
+    schedule.lastError = undefined;
+
+    const context: DataFlowContext = { trigger: 'schedule', scheduleId: schedule.id };
+
+    logger.info('Iniciando execução agendada', { scheduleId: schedule.id, action: schedule.action });
+
+    try {
+      if (schedule.action === 'refresh') {
+        await dataFlowService.clear(undefined, context);
+      }
+
+      const result = await dataFlowService.execute(schedule.options, context);
+      schedule.lastStatus = result.partial ? 'partial' : 'succeeded';
+
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+
+      schedule.lastStatus = error instanceof OperationCancelledError ? 'cancelled' : 'failed';
+      schedule.lastError = errorMessage;
+      logger.error('Erro na execução agendada', { scheduleId: schedule.id, error: errorMessage });
+    } finally {
+      schedule.running = false;
+      await this.persist();
+    }
+  }
+
+  private ready(): Promise<void> {
+    this.loading ??= this.load();
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    const schedules = await this.file?.read<Schedule[]>();
+    if (!schedules) {
+      return;
+    }
+
+    // Execuções em andamento antes do reinício não serão concluídas
+    schedules.forEach(schedule => this.schedules.set(schedule.id, { ...schedule, running: false }));
+
+    logger.info('Agendamentos carregados', { file: this.file!.filePath, count: this.schedules.size });
+  }
+
+  private async persist(): Promise<void> {
+    await this.file?.write([...this.schedules.values()], 2);
+  }
+}
+
+export const scheduler = new Scheduler(config.scheduler.enabled, config.scheduler.file || undefined);
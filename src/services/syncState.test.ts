@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { User } from '@/types';
+import { chunkDelta, fingerprintUsers, SyncStateStore } from '@/services/syncState';
+
+const ana: User = { nome: 'Ana', email: 'ana@email.com', phone: '+5511999999999' };
+const bia: User = { nome: 'Bia', email: 'bia@email.com', phone: '+5511988888888' };
+const caio: User = { nome: 'Caio', email: 'caio@email.com', phone: '+5511977777777' };
+
+describe('SyncStateStore', () => {
+  it('sem sincronização anterior, não calcula alterações', async () => {
+    await expect(new SyncStateStore().diff([ana])).resolves.toBeUndefined();
+  });
+
+  it('separa usuários adicionados, alterados, removidos e inalterados', async () => {
+    const store = new SyncStateStore();
+    await store.commit(fingerprintUsers([ana, bia]));
+
+    const diff = await store.diff([{ ...ana, email: ' ANA@email.com ' }, { ...bia, phone: '+5511900000000' }, caio]);
+
+    expect(diff).toEqual({
+      delta: { added: [caio], updated: [{ ...bia, phone: '+5511900000000' }], removed: [] },
+      unchanged: 1
+    });
+    await expect(store.diff([caio])).resolves.toMatchObject({ delta: { removed: ['ana@email.com', 'bia@email.com'] } });
+  });
+
+  it('não remove os emails retidos e mantém a impressão digital anterior deles', async () => {
+    const store = new SyncStateStore();
+    await store.commit(fingerprintUsers([ana, bia]));
+
+    // bia foi rejeitada na validação desta execução
+    const retained = new Set(['bia@email.com']);
+    const diff = await store.diff([ana], retained);
+    expect(diff?.delta.removed).toEqual([]);
+
+    await store.commit(fingerprintUsers([ana]), retained);
+
+    // Na execução seguinte, bia volta válida e sem alterações
+    await expect(store.diff([ana, bia])).resolves.toMatchObject({ unchanged: 2, delta: { added: [], updated: [] } });
+  });
+
+  it('após reset, volta ao envio completo', async () => {
+    const store = new SyncStateStore();
+    await store.commit(fingerprintUsers([ana]));
+    await store.reset();
+
+    await expect(store.diff([ana])).resolves.toBeUndefined();
+  });
+
+  describe('com arquivo', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-state-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('recarrega o estado após reinício', async () => {
+      const filePath = path.join(dir, 'sync-state.json');
+      await new SyncStateStore(filePath).commit(fingerprintUsers([ana, bia]));
+
+      await expect(new SyncStateStore(filePath).diff([ana])).resolves.toMatchObject({
+        delta: { removed: ['bia@email.com'] },
+        unchanged: 1
+      });
+    });
+
+    it('trata um estado ilegível como ausente', async () => {
+      const filePath = path.join(dir, 'sync-state.json');
+      fs.writeFileSync(filePath, 'não é json');
+
+      await expect(new SyncStateStore(filePath).diff([ana])).resolves.toBeUndefined();
+    });
+  });
+});
+
+describe('chunkDelta', () => {
+  it('divide as alterações em lotes na ordem added, updated, removed', () => {
+    const batches = chunkDelta({ added: [ana, bia], updated: [caio], removed: ['dan@email.com'] }, 3);
+
+    expect(batches).toEqual([
+      { added: [ana, bia], updated: [caio], removed: [] },
+      { added: [], updated: [], removed: ['dan@email.com'] }
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+import { createHash } from 'crypto';
+import { SyncDelta, User } from '@/types';
+import { config } from '@/config';
+import { JsonFile } from '@/utils/jsonFile';
+import { logger } from '@/utils/logger';
+import { normalizeEmail } from '@/utils/normalize';
+
+// Impressão digital do conteúdo sincronizado de um usuário (o id local não é considerado)
+export const fingerprintUser = (user: User): string =>
+  createHash('sha256').update(JSON.stringify([user.nome, normalizeEmail(user.email), user.phone])).digest('hex');
+
+export const fingerprintUsers = (users: User[]): Map<string, string> =>
+  new Map(users.map(user => [normalizeEmail(user.email), fingerprintUser(user)]));
+
+export const deltaSize = (delta: SyncDelta): number =>
+  delta.added.length + delta.updated.length + delta.removed.length;
+
+/**
+ * Divide as alterações em lotes de até `size` itens, na ordem added, updated, removed
+ */
+export const chunkDelta = (delta: SyncDelta, size: number): SyncDelta[] => {
+  const changes = [
+    ...delta.added.map(user => ({ kind: 'added' as const, user })),
+    ...delta.updated.map(user => ({ kind: 'updated' as const, user })),
+    ...delta.removed.map(email => ({ kind: 'removed' as const, email }))
+  ];
+
+  const batches: SyncDelta[] = [];
+  for (let i = 0; i < changes.length; i += size) {
+    const batch: SyncDelta = { added: [], updated: [], removed: [] };
+
+    changes.slice(i, i + size).forEach(change => {
+      if (change.kind === 'removed') {
+        batch.removed.push(change.email);
+      } else {
+        batch[change.kind].push(change.user);
+      }
+    });
+    batches.push(batch);
+  }
+
+  return batches;
+};
+
+/**
+ * Estado da última sincronização bem-sucedida com o N8N: impressão digital de cada usuário,
+ * indexada pelo email normalizado. Persistido em arquivo JSON; sem estado, a execução é completa.
+ */
+export class SyncStateStore {
+  private fingerprints?: Map<string, string>;
+  private readonly file?: JsonFile;
+  private loading?: Promise<void>;
+
+  constructor(filePath?: string) {
+    this.file = filePath ? new JsonFile(filePath, 'estado de sincronização') : undefined;
+  }
+
+  /**
+   * Calcula as alterações em relação à última sincronização
+   * @param retained - Emails ausentes de users que não devem ser removidos (ex.: registros rejeitados)
+   * @returns undefined quando não há sincronização anterior (a execução deve ser completa)
+   */
+  public async diff(users: User[], retained: ReadonlySet<string> = new Set()): Promise<{ delta: SyncDelta; unchanged: number } | undefined> {
+    await this.ready();
+
+    if (!this.fingerprints) {
+      return undefined;
+    }
+
+    const previous = this.fingerprints;
+    const current = new Set<string>();
+    const delta: SyncDelta = { added: [], updated: [], removed: [] };
+    let unchanged = 0;
+
+    for (const user of users) {
+      const email = normalizeEmail(user.email);
+      const fingerprint = previous.get(email);
+      current.add(email);
+
+      if (fingerprint === undefined) {
+        delta.added.push(user);
+      } else if (fingerprint !== fingerprintUser(user)) {
+        delta.updated.push(user);
+      } else {
+        unchanged++;
+      }
+    }
+
+    delta.removed = [...previous.keys()].filter(email => !current.has(email) && !retained.has(email));
+
+    return { delta, unchanged };
+  }
+
+  /**
+   * Substitui o estado pelo conjunto sincronizado com sucesso
+   * @param retained - Emails que mantêm a impressão digital anterior por não terem sido sincronizados
+   */
+  public async commit(fingerprints: Map<string, string>, retained: ReadonlySet<string> = new Set()): Promise<void> {
+    await this.ready();
+
+    const previous = this.fingerprints;
+    retained.forEach(email => {
+      const fingerprint = previous?.get(email);
+      if (fingerprint !== undefined && !fingerprints.has(email)) {
+        fingerprints.set(email, fingerprint);
+      }
+    });
+    this.fingerprints = fingerprints;
+    await this.persist();
+
+    logger.info('Estado de sincronização atualizado', { users: fingerprints.size });
+  }
+
+  /**
+   * Descarta o estado (ex.: após limpeza no N8N); a próxima execução será completa
+   */
+  public async reset(): Promise<void> {
+    await this.ready();
+    this.fingerprints = undefined;
+    await this.persist();
+  }
+
+  private ready(): Promise<void> {
+    this.loading ??= this.load();
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    // Sem estado legível, a próxima execução é completa
+    const entries = await this.file?.read<Record<string, string> | null>();
+
+    if (entries) {
+      this.fingerprints = new Map(Object.entries(entries));
+      logger.info('Estado de sincronização carregado', { file: this.file!.filePath, users: this.fingerprints.size });
+    }
+  }
+
+  private async persist(): Promise<void> {
+    await this.file?.write(this.fingerprints ? Object.fromEntries(this.fingerprints) : null);
+  }
+}
+
+export const syncStateStore = new SyncStateStore(config.syncState.file || undefined);
@@ -0,0 +1,71 @@
+import { User } from '@/types';
+import { UserNormalizationSession } from '@/services/userNormalizer';
+
+const users: User[] = [
+  { nome: 'Ana', email: 'ANA@email.com', phone: '11999999999' },
+  { nome: 'Bia', email: 'bia@email.com', phone: '+5511988887777' },
+  { id: 7, nome: 'Ana  Maria Silva', email: 'ana@email.com ', phone: '+5511999999999' },
+  { nome: 'Ana Última', email: 'ana@email.com', phone: '999' }
+];
+
+describe('UserNormalizationSession', () => {
+  it('normaliza nome, email e telefone e conta as reescritas', () => {
+    const session = new UserNormalizationSession('first', 'BR');
+
+    expect(session.process([users[0], users[1]])).toEqual([
+      { nome: 'Ana', email: 'ana@email.com', phone: '+5511999999999' },
+      users[1]
+    ]);
+    expect(session.getReport()).toEqual({
+      strategy: 'first',
+      defaultRegion: 'BR',
+      rewritten: 1,
+      merged: 0,
+      invalidPhones: 0
+    });
+  });
+
+  it('first mantém o primeiro registro de cada email', () => {
+    const session = new UserNormalizationSession('first', 'BR');
+
+    expect(session.process(users).map(user => user.nome)).toEqual(['Ana', 'Bia']);
+    expect(session.getReport()).toMatchObject({ merged: 2, invalidPhones: 1 });
+  });
+
+  it('last mantém o último registro, na posição dele', () => {
+    const session = new UserNormalizationSession('last', 'BR');
+
+    expect(session.process(users)).toEqual([
+      users[1],
+      { nome: 'Ana Última', email: 'ana@email.com', phone: '999' }
+    ]);
+  });
+
+  it('most-complete mantém o registro com mais campos e telefone em E.164', () => {
+    const session = new UserNormalizationSession('most-complete', 'BR');
+
+    expect(session.process(users)).toEqual([
+      users[1],
+      { id: 7, nome: 'Ana Maria Silva', email: 'ana@email.com', phone: '+5511999999999' }
+    ]);
+  });
+
+  it('most-complete mantém o primeiro em caso de empate', () => {
+    const session = new UserNormalizationSession('most-complete', 'BR');
+
+    const result = session.process([
+      { nome: 'Ana Silva', email: 'ana@email.com', phone: '+5511999999999' },
+      { nome: 'Ana Souza', email: 'ana@email.com', phone: '+5511977776666' }
+    ]);
+
+    expect(result).toEqual([expect.objectContaining({ nome: 'Ana Silva' })]);
+  });
+
+  it('em streaming, descarta emails já enviados em lotes anteriores', () => {
+    const session = new UserNormalizationSession('last', 'BR');
+
+    expect(session.process([users[0]])).toHaveLength(1);
+    expect(session.process([users[2], users[1]])).toEqual([users[1]]);
+    expect(session.getReport().merged).toBe(1);
+  });
+});
@@ -0,0 +1,102 @@
+import { DedupeStrategy, NormalizationReport, User } from '@/types';
+import { config } from '@/config';
+import { normalizeEmail, normalizeName, toE164 } from '@/utils/normalize';
+
+/**
+ * Normaliza os usuários validados (telefone E.164, email canônico, nome sem espaços repetidos)
+ * e remove duplicados por email, acumulando um relatório da execução.
+ * - first: mantém o primeiro registro de cada email
+ * - last: mantém o último registro de cada email
+ * - most-complete: mantém o registro mais completo (empate: o primeiro)
+ *
+ * Em streaming, cada lote é processado ao chegar: duplicados dentro do lote seguem a estratégia,
+ * e emails já enviados em lotes anteriores são sempre descartados.
+ */
+export class UserNormalizationSession {
+  private rewritten = 0;
+  private merged = 0;
+  private invalidPhones = 0;
+  private readonly sent = new Set<string>();
+
+  constructor(
+    public readonly strategy: DedupeStrategy = config.normalization.dedupeStrategy,
+    private readonly defaultRegion: string = config.normalization.defaultRegion
+  ) {}
+
+  /**
+   * Normaliza e deduplica um conjunto de usuários (a execução inteira ou um lote do stream)
+   */
+  public readonly process = (users: User[]): User[] => {
+    const byEmail = new Map<string, User>();
+
+    for (const user of users.map(this.normalize)) {
+      if (this.sent.has(user.email)) {
+        this.merged++;
+        continue;
+      }
+
+      const current = byEmail.get(user.email);
+      if (!current) {
+        byEmail.set(user.email, user);
+        continue;
+      }
+
+      this.merged++;
+      if (this.prefers(user, current)) {
+        // Reinserção move o email para a posição do registro escolhido
+        byEmail.delete(user.email);
+        byEmail.set(user.email, user);
+      }
+    }
+
+    byEmail.forEach((_, email) => this.sent.add(email));
+    return [...byEmail.values()];
+  };
+
+  public getReport(): NormalizationReport {
+    return {
+      strategy: this.strategy,
+      defaultRegion: this.defaultRegion,
+      rewritten: this.rewritten,
+      merged: this.merged,
+      invalidPhones: this.invalidPhones
+    };
+  }
+
+  private readonly normalize = (user: User): User => {
+    const phone = toE164(user.phone, this.defaultRegion);
+    if (phone === null) {
+      this.invalidPhones++;
+    }
+
+    const normalized: User = {
+      ...user,
+      nome: normalizeName(user.nome),
+      email: normalizeEmail(user.email),
+      phone: phone ?? user.phone
+    };
+
+    if (normalized.nome !== user.nome || normalized.email !== user.email || normalized.phone !== user.phone) {
+      this.rewritten++;
+    }
+
+    return normalized;
+  };
+
+  private prefers(candidate: User, current: User): boolean {
+    switch (this.strategy) {
+      case 'last':
+        return true;
+      case 'most-complete':
+        return completeness(candidate) > completeness(current);
+      default:
+        return false;
+    }
+  }
+}
+
+// Campos preenchidos, telefone em E.164 e nome com mais partes contam como mais completo
+const completeness = (user: User): number =>
+  [user.id, user.nome, user.email, user.phone].filter(value => value !== undefined && value !== '').length +
+  (user.phone.startsWith('+') ? 1 : 0) +
+  user.nome.split(' ').length / 100;
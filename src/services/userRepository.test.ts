@@ -0,0 +1,69 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { User, UserRepository } from '@/types';
+import { DuplicateEmailError } from '@/middleware/errorHandler';
+import { MemoryUserRepository, SqliteUserRepository } from '@/services/userRepository';
+
+const ana: User = { nome: 'Ana', email: 'ana@email.com', phone: '+5511999999999' };
+const bia: User = { nome: 'Bia', email: 'bia@email.com', phone: '+5511988888888' };
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'user-repository-'));
+let databases = 0;
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe.each([
+  ['memória', (): UserRepository => new MemoryUserRepository()],
+  ['SQLite', (): UserRepository => new SqliteUserRepository(path.join(dir, `users-${databases++}.db`))]
+])('Repositório de usuários em %s', (name, createRepository) => {
+  let repository: UserRepository;
+
+  beforeEach(() => {
+    repository = createRepository();
+  });
+
+  it('cria, atualiza e remove usuários, recusando emails duplicados sem diferenciar maiúsculas', async () => {
+    const created = await repository.create(ana);
+    await expect(repository.create({ ...bia, email: 'ANA@email.com' })).rejects.toThrow(DuplicateEmailError);
+
+    const other = await repository.create(bia);
+    await expect(repository.update(other.id, { ...bia, email: 'Ana@Email.com' })).rejects.toThrow(DuplicateEmailError);
+    await expect(repository.update(created.id, { ...ana, nome: 'Ana Maria' })).resolves.toMatchObject({ nome: 'Ana Maria' });
+
+    await expect(repository.remove(created.id)).resolves.toBe(true);
+    await expect(repository.findById(created.id)).resolves.toBeUndefined();
+    await expect(repository.update(created.id, ana)).resolves.toBeUndefined();
+  });
+
+  it('no upsert, insere novos emails e atualiza apenas os alterados', async () => {
+    const [stored] = await repository.upsertMany([ana]);
+
+    const [unchanged, added] = await repository.upsertMany([ana, bia]);
+    expect(unchanged).toEqual(stored);
+    expect(added).toMatchObject({ email: 'bia@email.com' });
+
+    const [updated] = await repository.upsertMany([{ ...ana, phone: '+5511900000000' }]);
+    expect(updated).toMatchObject({ id: stored.id, phone: '+5511900000000', createdAt: stored.createdAt });
+    await expect(repository.list()).resolves.toHaveLength(2);
+  });
+
+  it('grava em lotes maiores que uma transação', async () => {
+    const users = Array.from({ length: 1201 }, (_, index) => ({ ...ana, email: `u${index}@email.com` }));
+
+    await expect(repository.upsertMany(users)).resolves.toHaveLength(1201);
+    await expect(repository.removeWhere({ emails: users.slice(0, 1100).map(user => user.email) })).resolves.toBe(1100);
+    await expect(repository.list()).resolves.toHaveLength(101);
+  });
+
+  it('remove por emails sem diferenciar maiúsculas, por data de corte ou todos', async () => {
+    await repository.upsertMany([ana, bia]);
+
+    await expect(repository.removeWhere({ emails: ['ANA@email.com', 'nao@existe.com'] })).resolves.toBe(1);
+    await expect(repository.removeWhere({ createdBefore: '2000-01-01' })).resolves.toBe(0);
+    await expect(repository.removeWhere()).resolves.toBe(1);
+    await expect(repository.list()).resolves.toEqual([]);
+  });
+});
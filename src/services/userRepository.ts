@@ -0,0 +1,307 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { ClearScope, StoredUser, User, UserRepository, UserRepositoryConfig, UserRepositoryType } from '@/types';
+import { config } from '@/config';
+import { DuplicateEmailError } from '@/middleware/errorHandler';
+import { normalizeEmail } from '@/utils/normalize';
+import { logger } from '@/utils/logger';
+
+// No upsert, só nome e telefone podem mudar (o email é a chave)
+const hasChanged = (current: StoredUser, user: User): boolean =>
+  current.nome !== user.nome || current.phone !== user.phone;
+
+// Data de corte em ISO completo, comparável com createdAt
+const cutoffOf = (scope?: ClearScope): string | undefined =>
+  scope?.createdBefore ? new Date(scope.createdBefore).toISOString() : undefined;
+
+/**
+ * Repositório de usuários em memória (perdido ao reiniciar); ids sequenciais a partir de 1
+ */
+export class MemoryUserRepository implements UserRepository {
+  public readonly type: UserRepositoryType = 'memory';
+  private readonly users = new Map<number, StoredUser>();
+  // Email normalizado -> id
+  private readonly emails = new Map<string, number>();
+  private nextId = 1;
+
+  public async list(): Promise<StoredUser[]> {
+    return [...this.users.values()];
+  }
+
+  public async findById(id: number): Promise<StoredUser | undefined> {
+    return this.users.get(id);
+  }
+
+  public async create(user: User): Promise<StoredUser> {
+    if (this.findByEmail(user.email)) {
+      throw new DuplicateEmailError();
+    }
+    return this.insert(user);
+  }
+
+  public async update(id: number, user: User): Promise<StoredUser | undefined> {
+    const current = this.users.get(id);
+    if (!current) {
+      return undefined;
+    }
+
+    const owner = this.findByEmail(user.email);
+    if (owner && owner.id !== id) {
+      throw new DuplicateEmailError();
+    }
+
+    const updated: StoredUser = { ...current, ...user, id, updatedAt: new Date().toISOString() };
+    this.emails.delete(normalizeEmail(current.email));
+    this.emails.set(normalizeEmail(updated.email), id);
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  public async remove(id: number): Promise<boolean> {
+    const current = this.users.get(id);
+    if (!current) {
+      return false;
+    }
+
+    this.emails.delete(normalizeEmail(current.email));
+    return this.users.delete(id);
+  }
+
+  public async upsertMany(users: User[]): Promise<StoredUser[]> {
+    return users.map(user => {
+      const current = this.findByEmail(user.email);
+      if (!current) {
+        return this.insert(user);
+      }
+      if (!hasChanged(current, user)) {
+        return current;
+      }
+
+      const updated: StoredUser = {
+        ...current,
+        nome: user.nome,
+        phone: user.phone,
+        updatedAt: new Date().toISOString()
+      };
+      this.users.set(current.id, updated);
+      return updated;
+    });
+  }
+
+  public async removeWhere(scope?: ClearScope): Promise<number> {
+    const emails = scope?.emails && new Set(scope.emails.map(normalizeEmail));
+    const cutoff = cutoffOf(scope);
+    let removed = 0;
+
+    for (const [id, user] of this.users) {
+      const matches = emails ? emails.has(normalizeEmail(user.email)) : !cutoff || user.createdAt < cutoff;
+      if (matches) {
+        this.emails.delete(normalizeEmail(user.email));
+        this.users.delete(id);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  private findByEmail(email: string): StoredUser | undefined {
+    const id = this.emails.get(normalizeEmail(email));
+    return id === undefined ? undefined : this.users.get(id);
+  }
+
+  private insert(user: User): StoredUser {
+    const now = new Date().toISOString();
+    const stored: StoredUser = {
+      id: this.nextId++,
+      nome: user.nome,
+      email: user.email,
+      phone: user.phone,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.users.set(stored.id, stored);
+    this.emails.set(normalizeEmail(stored.email), stored.id);
+    return stored;
+  }
+}
+
+interface UserRow {
+  id: number;
+  nome: string;
+  email: string;
+  phone: string;
+  created_at: string;
+  updated_at: string;
+}
+
+const toStoredUser = (row: UserRow): StoredUser => ({
+  id: row.id,
+  nome: row.nome,
+  email: row.email,
+  phone: row.phone,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const isUniqueViolation = (error: unknown): boolean =>
+  (error as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE';
+
+// Operações em massa são gravadas em transações deste tamanho, devolvendo o event loop entre elas:
+// o better-sqlite3 é síncrono e uma execução inteira em uma só transação bloquearia o servidor
+const WRITE_CHUNK_SIZE = 500;
+
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+/**
+ * Aplica a transação a cada fatia de items, cedendo o event loop entre as fatias
+ */
+const runInChunks = async <T, R>(items: T[], transaction: (chunk: T[]) => R[]): Promise<R[]> => {
+  const results: R[] = [];
+
+  for (let i = 0; i < items.length; i += WRITE_CHUNK_SIZE) {
+    if (i > 0) {
+      await yieldToEventLoop();
+    }
+    results.push(...transaction(items.slice(i, i + WRITE_CHUNK_SIZE)));
+  }
+
+  return results;
+};
+
+/**
+ * Repositório de usuários em SQLite (better-sqlite3, dependência opcional carregada só quando usada).
+ * O email é único sem diferenciar maiúsculas; o banco é aberto na primeira operação.
+ */
+export class SqliteUserRepository implements UserRepository {
+  public readonly type: UserRepositoryType = 'sqlite';
+  private opening?: Promise<BetterSqlite3.Database>;
+
+  constructor(private readonly filePath: string) {}
+
+  public async list(): Promise<StoredUser[]> {
+    const db = await this.ready();
+    return db.prepare<[], UserRow>('SELECT * FROM users ORDER BY id').all().map(toStoredUser);
+  }
+
+  public async findById(id: number): Promise<StoredUser | undefined> {
+    const db = await this.ready();
+    const row = db.prepare<[number], UserRow>('SELECT * FROM users WHERE id = ?').get(id);
+    return row && toStoredUser(row);
+  }
+
+  public async create(user: User): Promise<StoredUser> {
+    const db = await this.ready();
+    const now = new Date().toISOString();
+
+    try {
+      const row = db.prepare<[string, string, string, string, string], UserRow>(
+        'INSERT INTO users (nome, email, phone, created_at, updated_at) VALUES (?, ?, ?, ?, ?) RETURNING *'
+      ).get(user.nome, user.email, user.phone, now, now)!;
+      return toStoredUser(row);
+    } catch (error: unknown) {
+      throw isUniqueViolation(error) ? new DuplicateEmailError() : error;
+    }
+  }
+
+  public async update(id: number, user: User): Promise<StoredUser | undefined> {
+    const db = await this.ready();
+
+    try {
+      const row = db.prepare<[string, string, string, string, number], UserRow>(
+        'UPDATE users SET nome = ?, email = ?, phone = ?, updated_at = ? WHERE id = ? RETURNING *'
+      ).get(user.nome, user.email, user.phone, new Date().toISOString(), id);
+      return row && toStoredUser(row);
+    } catch (error: unknown) {
+      throw isUniqueViolation(error) ? new DuplicateEmailError() : error;
+    }
+  }
+
+  public async remove(id: number): Promise<boolean> {
+    const db = await this.ready();
+    return db.prepare('DELETE FROM users WHERE id = ?').run(id).changes > 0;
+  }
+
+  public async upsertMany(users: User[]): Promise<StoredUser[]> {
+    const db = await this.ready();
+    const find = db.prepare<[string], UserRow>('SELECT * FROM users WHERE email = ?');
+    const insert = db.prepare<[string, string, string, string, string], UserRow>(
+      'INSERT INTO users (nome, email, phone, created_at, updated_at) VALUES (?, ?, ?, ?, ?) RETURNING *'
+    );
+    const update = db.prepare<[string, string, string, number], UserRow>(
+      'UPDATE users SET nome = ?, phone = ?, updated_at = ? WHERE id = ? RETURNING *'
+    );
+
+    // Uma transação por fatia: cada fatia é gravada inteira ou nada é; fatias anteriores a uma
+    // falha permanecem gravadas, e a próxima execução refaz o upsert das demais
+    return runInChunks(users, db.transaction((batch: User[]) => batch.map(user => {
+      const now = new Date().toISOString();
+      const current = find.get(user.email);
+
+      if (!current) {
+        return toStoredUser(insert.get(user.nome, user.email, user.phone, now, now)!);
+      }
+      const stored = toStoredUser(current);
+      return hasChanged(stored, user) ? toStoredUser(update.get(user.nome, user.phone, now, stored.id)!) : stored;
+    })));
+  }
+
+  public async removeWhere(scope?: ClearScope): Promise<number> {
+    const db = await this.ready();
+
+    if (scope?.emails) {
+      const remove = db.prepare('DELETE FROM users WHERE email = ?');
+      const removed = await runInChunks(scope.emails, db.transaction((emails: string[]) =>
+        emails.map(email => remove.run(email).changes)
+      ));
+      return removed.reduce((total, changes) => total + changes, 0);
+    }
+
+    const cutoff = cutoffOf(scope);
+    return cutoff
+      ? db.prepare('DELETE FROM users WHERE created_at < ?').run(cutoff).changes
+      : db.prepare('DELETE FROM users').run().changes;
+  }
+
+  private ready(): Promise<BetterSqlite3.Database> {
+    this.opening ??= this.open();
+    return this.opening;
+  }
+
+  private async open(): Promise<BetterSqlite3.Database> {
+    let Database: typeof BetterSqlite3;
+    try {
+      Database = (await import('better-sqlite3')).default;
+    } catch {
+      throw new Error('USER_REPOSITORY=sqlite requer o pacote better-sqlite3 instalado');
+    }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const db = new Database(this.filePath);
+
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        nome TEXT NOT NULL,
+        email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        phone TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    logger.info('Repositório de usuários SQLite aberto', { file: this.filePath });
+    return db;
+  }
+}
+
+export const createUserRepository = (repositoryConfig: UserRepositoryConfig): UserRepository => {
+  if (repositoryConfig.type === 'sqlite') {
+    return new SqliteUserRepository(repositoryConfig.file);
+  }
+  return new MemoryUserRepository();
+};
+
+export const userRepository = createUserRepository(config.userRepository);
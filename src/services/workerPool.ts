@@ -0,0 +1,203 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { WorkerPoolStats } from '@/types';
+import { config } from '@/config';
+import { logger } from '@/utils/logger';
+
+interface PendingTask {
+  id: number;
+  payload: unknown;
+  transferList: ArrayBuffer[];
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  enqueuedAt: number;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task?: PendingTask;
+  busySince?: number;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Resolve o script do worker: .ts em desenvolvimento (ts-node), .js no build
+ */
+const resolveWorkerScript = (name: string): { filename: string; execArgv?: string[] } => {
+  const isTypeScript = __filename.endsWith('.ts');
+  const filename = path.join(__dirname, '..', 'workers', `${name}${isTypeScript ? '.ts' : '.js'}`);
+
+  return isTypeScript
+    ? { filename, execArgv: ['-r', 'ts-node/register/transpile-only', '-r', 'tsconfig-paths/register'] }
+    : { filename };
+};
+
+/**
+ * Pool de worker threads de tamanho fixo, com fila de tarefas e timeout por tarefa.
+ * Workers são criados sob demanda e substituídos se falharem.
+ */
+export class WorkerPool {
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: PendingTask[] = [];
+  private readonly startedAt = Date.now();
+  private nextTaskId = 0;
+  private completed = 0;
+  private failed = 0;
+  private totalBusyMs = 0;
+  private totalWaitMs = 0;
+
+  constructor(
+    private readonly scriptName: string,
+    private readonly size: number,
+    private readonly taskTimeoutMs: number
+  ) {}
+
+  public get enabled(): boolean {
+    return this.size > 0;
+  }
+
+  /**
+   * Enfileira uma tarefa e resolve com a resposta do worker
+   */
+  public run<T>(payload: unknown, transferList: ArrayBuffer[] = []): Promise<T> {
+    if (!this.enabled) {
+      return Promise.reject(new Error('Pool de workers desabilitado'));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        id: this.nextTaskId++,
+        payload,
+        transferList,
+        // A resposta do worker é do tipo pedido por quem enfileirou a tarefa
+        resolve: value => resolve(value as T),
+        reject,
+        enqueuedAt: Date.now()
+      });
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let poolWorker = this.workers.find(w => !w.task);
+
+      if (!poolWorker) {
+        if (this.workers.length >= this.size) {
+          return;
+        }
+        poolWorker = this.spawn();
+      }
+
+      this.assign(poolWorker, this.queue.shift()!);
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const { filename, execArgv } = resolveWorkerScript(this.scriptName);
+    const worker = new Worker(filename, execArgv ? { execArgv } : undefined);
+    const poolWorker: PoolWorker = { worker };
+
+    worker.unref();
+
+    worker.on('message', (message: { id: number; result?: unknown; error?: string }) => {
+      const task = poolWorker.task;
+      if (!task || task.id !== message.id) return;
+
+      this.release(poolWorker);
+
+      if (message.error !== undefined) {
+        this.failed++;
+        task.reject(new Error(message.error));
+      } else {
+        this.completed++;
+        task.resolve(message.result);
+      }
+
+      this.dispatch();
+    });
+
+    worker.on('error', (error: Error) => {
+      logger.error('Worker thread falhou', { script: this.scriptName, error: error.message });
+      this.discard(poolWorker, error);
+    });
+
+    worker.on('exit', (code: number) => {
+      if (this.workers.includes(poolWorker)) {
+        this.discard(poolWorker, new Error(`Worker thread encerrado com código ${code}`));
+      }
+    });
+
+    this.workers.push(poolWorker);
+    logger.debug('Worker thread criado', { script: this.scriptName, poolSize: this.workers.length });
+    return poolWorker;
+  }
+
+  private assign(poolWorker: PoolWorker, task: PendingTask): void {
+    poolWorker.task = task;
+    poolWorker.busySince = Date.now();
+    this.totalWaitMs += poolWorker.busySince - task.enqueuedAt;
+
+    poolWorker.timer = setTimeout(() => {
+      logger.warn('Tarefa excedeu o timeout do worker, encerrando worker', {
+        script: this.scriptName,
+        timeoutMs: this.taskTimeoutMs
+      });
+      this.discard(poolWorker, new Error(`Tarefa excedeu o timeout de ${this.taskTimeoutMs}ms`));
+      poolWorker.worker.terminate();
+    }, this.taskTimeoutMs);
+
+    poolWorker.worker.postMessage({ id: task.id, payload: task.payload }, task.transferList);
+  }
+
+  private release(poolWorker: PoolWorker): void {
+    if (poolWorker.timer) clearTimeout(poolWorker.timer);
+    if (poolWorker.busySince) this.totalBusyMs += Date.now() - poolWorker.busySince;
+    poolWorker.task = undefined;
+    poolWorker.busySince = undefined;
+    poolWorker.timer = undefined;
+  }
+
+  /**
+   * Remove um worker com falha, rejeitando sua tarefa corrente
+   */
+  private discard(poolWorker: PoolWorker, error: Error): void {
+    const index = this.workers.indexOf(poolWorker);
+    if (index === -1) return;
+
+    this.workers.splice(index, 1);
+    const task = poolWorker.task;
+    this.release(poolWorker);
+
+    if (task) {
+      this.failed++;
+      task.reject(error);
+    }
+
+    this.dispatch();
+  }
+
+  public getStats(): WorkerPoolStats {
+    const busy = this.workers.filter(w => w.task).length;
+    const processed = this.completed + this.failed;
+    const capacityMs = this.size * (Date.now() - this.startedAt);
+
+    return {
+      size: this.size,
+      active: this.workers.length,
+      busy,
+      queued: this.queue.length,
+      completed: this.completed,
+      failed: this.failed,
+      utilization: this.size > 0 ? busy / this.size : 0,
+      averageUtilization: capacityMs > 0 ? this.totalBusyMs / capacityMs : 0,
+      averageWaitMs: processed > 0 ? this.totalWaitMs / processed : 0
+    };
+  }
+}
+
+export const decryptWorkerPool = new WorkerPool(
+  'decryptWorker',
+  config.workerPool.size,
+  config.workerPool.taskTimeoutMs
+);
@@ -1,3 +1,5 @@
+import { Transform } from 'stream';
+
 // Tipos para os dados de usuário
 export interface User {
   id?: number;
@@ -10,7 +12,127 @@ export interface User {
 export interface EncryptedData {
   encryptedData: string;
   iv: string;
+  authTag: string;
+  kid?: string;
+  algorithm?: string;
+}
+
+// Tipos para suítes de cifra
+export interface EncryptionResult {
+  ciphertext: Buffer;
+  authTag: Buffer;
+}
+
+export interface CipherSuite {
+  readonly name: string;
+  readonly ivLength: number;
+  readonly tagLength: number;
+  // A chave da suíte é MAC_KEY (ENCRYPTION_MAC_KEY) || chave do provedor
+  readonly requiresMacKey: boolean;
+  isAvailable(): boolean;
+  encrypt(key: Buffer, iv: Buffer, plaintext: Buffer): EncryptionResult;
+  decrypt(key: Buffer, iv: Buffer, ciphertext: Buffer, authTag: Buffer): Buffer;
+  createDecryptStream(key: Buffer, iv: Buffer, authTag: Buffer): Transform;
+}
+
+// Header protegido de um token JWE
+export interface JweProtectedHeader {
+  alg: string;
+  enc: string;
+  kid?: string;
+  zip?: string;
+  cty?: string;
+}
+
+// Conteúdo de um JWE compacto pronto para a descriptografia A256GCM (chave de conteúdo já obtida)
+export interface JweContent {
+  contentKey: Uint8Array;
+  iv: Uint8Array;
+  ciphertext: Uint8Array;
+  authTag: Uint8Array;
+  // Header protegido codificado, autenticado como AAD
+  aad: Uint8Array;
+}
+
+// Tarefas de descriptografia executadas em worker thread: envelope de uma suíte de cifra ou JWE
+export interface EnvelopeDecryptTask {
+  kind: 'envelope';
+  algorithm: string;
+  key: Uint8Array;
+  iv: Uint8Array;
+  ciphertext: Uint8Array;
+  authTag: Uint8Array;
+}
+
+export interface JweDecryptTask extends JweContent {
+  kind: 'jwe';
+}
+
+export type DecryptTask = EnvelopeDecryptTask | JweDecryptTask;
+
+export interface WorkerPoolStats {
+  size: number;
+  active: number;
+  busy: number;
+  queued: number;
+  completed: number;
+  failed: number;
+  utilization: number;
+  averageUtilization: number;
+  averageWaitMs: number;
+}
+
+// Metadados de um envelope recebido em modo streaming (corpo em hex, metadados em headers)
+export type EncryptedStreamEnvelope = Omit<EncryptedData, 'encryptedData'>;
+
+// Resultado do processamento em streaming
+export interface StreamProcessingResult {
+  usersCount: number;
+  batches: number;
+}
+
+export type UserBatchHandler = (users: User[], batchIndex: number) => Promise<void>;
+
+// Tipos para gerenciamento de chaves de criptografia
+export type KeyProviderType = 'env' | 'file' | 'keyring' | 'passphrase';
+
+export interface KeyringEntry {
   key: string;
+  createdAt?: string;
+  retiredAt?: string;
+}
+
+export interface KeyringDocument {
+  activeKid: string;
+  keys: Record<string, KeyringEntry>;
+}
+
+export interface KeyProvider {
+  readonly type: KeyProviderType;
+  getKey(kid?: string): Promise<Buffer>;
+  getActiveKeyId(): string | undefined;
+  listKeyIds(): string[];
+}
+
+export interface KeyDerivationParams {
+  passphrase: string;
+  salt: string;
+  iterations: number;
+  keyLength: number;
+  digest: string;
+}
+
+export interface EncryptionConfig {
+  keyProvider: KeyProviderType;
+  key?: string;
+  keyFile?: string;
+  keyring?: string;
+  keyringFile?: string;
+  passphrase?: string;
+  salt?: string;
+  gracePeriodMs: number;
+  // Chave HMAC das suítes encrypt-then-MAC (aes-256-cbc-hmac-sha256), independente da chave de cifra
+  macKey?: string;
 }
 
 // Tipos para resposta da API
@@ -19,17 +141,622 @@ export interface ApiResponse<T = any> {
   data?: T;
   message?: string;
   error?: string;
+  meta?: Record<string, unknown>;
 }
 
-// Tipos para configuração do servidor
-export interface ServerConfig {
-  port: number;
-  nodeEnv: string;
+// Tipos para validação de registros descriptografados
+export type ValidationMode = 'strict' | 'lenient';
+
+// Converte um registro bruto em usuário; null indica registro rejeitado
+export type RecordValidator = (record: unknown, index: number) => User | null;
+
+export interface RecordFieldError {
+  field: string;
+  reason: string;
+  // Valor recebido, mascarado
+  value?: string;
+}
+
+export interface RecordRejection extends RecordFieldError {
+  index: number;
+}
+
+// Resultado da validação de um registro bruto com o userSchema (modo lenient e importação)
+export interface UserRecordValidation {
+  user?: User;
+  errors: RecordFieldError[];
+  // Email do registro em minúsculas e sem espaços, presente mesmo quando o registro é rejeitado
+  email?: string;
+}
+
+// Tipos para normalização e deduplicação dos usuários antes do envio ao N8N
+export type DedupeStrategy = 'first' | 'last' | 'most-complete';
+
+export interface NormalizationConfig {
+  defaultRegion: string;
+  dedupeStrategy: DedupeStrategy;
+}
+
+export interface NormalizationReport {
+  strategy: DedupeStrategy;
+  defaultRegion: string;
+  // Registros com algum campo reescrito (telefone, email ou nome)
+  rewritten: number;
+  // Registros descartados por duplicarem o email de outro registro
+  merged: number;
+  // Telefones que não puderam ser convertidos para E.164 (mantidos como recebidos)
+  invalidPhones: number;
+}
+
+export interface ValidationReport {
+  mode: ValidationMode;
+  total: number;
+  accepted: number;
+  rejected: number;
+  rejections: RecordRejection[];
+  truncated: boolean;
+}
+
+export interface ExecuteOptions {
+  mode: ValidationMode;
+  // Envia a lista completa (action process) em vez apenas das alterações desde a última sincronização
+  full?: boolean;
+  dryRun?: boolean;
+  preview?: PreviewOptions;
+}
+
+// Opções do modo dry-run: paginação dos usuários e mascaramento de dados pessoais
+export interface PreviewOptions {
+  page: number;
+  pageSize: number;
+  maskPii: boolean;
+}
+
+export interface ExecuteQuery {
+  async?: boolean;
+}
+
+// Tipos para fontes de dados de usuários
+export type DataSourceName = 'encrypted-upstream' | 'fixture';
+
+export interface DataSource {
+  readonly name: DataSourceName;
+  loadUsers(validate?: RecordValidator, hooks?: DataFlowHooks): Promise<User[]>;
+  streamUsers?(
+    onBatch: UserBatchHandler,
+    batchSize: number,
+    validate?: RecordValidator,
+    hooks?: DataFlowHooks
+  ): Promise<StreamProcessingResult>;
+}
+
+export interface DataSourceConfig {
+  type: DataSourceName;
+  fixtureFile?: string;
+}
+
+export interface KeyCacheConfig {
+  ttlMs: number;
+  maxEntries: number;
+}
+
+export interface WorkerPoolConfig {
+  size: number;
+  taskTimeoutMs: number;
+}
+
+export interface HttpClientConfig {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+export interface N8NBatchConfig {
+  size: number;
+  concurrency: number;
+}
+
+export interface WebhookSigningConfig {
+  secret?: string;
+  keyId: string;
+  toleranceSeconds: number;
+}
+
+export type IdempotencyStoreType = 'memory' | 'file';
+
+export interface IdempotencyConfig {
+  store: IdempotencyStoreType;
+  file?: string;
+  ttlMs: number;
+}
+
+export interface JobsConfig {
+  concurrency: number;
+  // Aceita ?async=true no execute
+  asyncEnabled: boolean;
+}
+
+export interface UserImportConfig {
+  maxBytes: number;
+}
+
+export interface ReadCacheConfig {
+  // 0 desabilita o cache
+  ttlMs: number;
+}
+
+export interface UserRepositoryConfig {
+  type: UserRepositoryType;
+  // Arquivo do banco SQLite (type=sqlite)
+  file: string;
+}
+
+export interface ClearConfirmationConfig {
+  ttlMs: number;
+}
+
+export interface SyncStateConfig {
+  file?: string;
+}
+
+export interface SchedulerConfig {
+  enabled: boolean;
+  file?: string;
+}
+
+export interface StreamingConfig {
+  enabled: boolean;
+  batchSize: number;
+}
+
+// Ambientes nomeados, cada um com seu conjunto de endpoints
+export type EnvironmentName = 'dev' | 'staging' | 'prod';
+
+export interface EnvironmentEndpoints {
   encryptedDataUrl: string;
   n8nWebhookUrl: string;
   n8nClearWebhookUrl: string;
+  n8nReadWebhookUrl: string;
+}
+
+// Tipos para configuração do servidor
+export interface ServerConfig extends EnvironmentEndpoints {
+  port: number;
+  nodeEnv: string;
+  environment: EnvironmentName;
   corsOrigin: string;
   logLevel: string;
+  encryption: EncryptionConfig;
+  dataSource: DataSourceConfig;
+  streaming: StreamingConfig;
+  keyCache: KeyCacheConfig;
+  workerPool: WorkerPoolConfig;
+  httpClient: HttpClientConfig;
+  circuitBreaker: CircuitBreakerConfig;
+  n8nBatch: N8NBatchConfig;
+  webhookSigning: WebhookSigningConfig;
+  idempotency: IdempotencyConfig;
+  jobs: JobsConfig;
+  runHistory: RunHistoryConfig;
+  runStatus: RunStatusConfig;
+  scheduler: SchedulerConfig;
+  syncState: SyncStateConfig;
+  normalization: NormalizationConfig;
+  userImport: UserImportConfig;
+  clearConfirmation: ClearConfirmationConfig;
+  userRepository: UserRepositoryConfig;
+  readCache: ReadCacheConfig;
+  apiKey?: string;
+}
+
+// Tipos para resiliência das chamadas externas
+export interface RetryOptions {
+  operation: string;
+  idempotent: boolean;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  openedAt?: string;
+  nextAttemptAt?: string;
+}
+
+// Tipos para envio em lotes ao N8N
+export interface N8NBatchInfo {
+  index: number;
+  total?: number;
+}
+
+export interface N8NProcessPayload {
+  users: User[];
+  timestamp: string;
+  action: 'process';
+  runId: string;
+  batch: N8NBatchInfo;
+}
+
+export interface N8NSyncPayload extends SyncDelta {
+  timestamp: string;
+  action: 'sync';
+  runId: string;
+  batch: N8NBatchInfo;
+}
+
+export interface N8NClearPayload {
+  timestamp: string;
+  action: 'clear';
+  // Ausente na limpeza completa
+  scope?: ClearScope;
+}
+
+export interface N8NBatchResult {
+  index: number;
+  usersCount: number;
+  success: boolean;
+  status?: number;
+  error?: string;
+}
+
+export interface N8NDeliverySummary {
+  runId: string;
+  usersCount: number;
+  deliveredUsers: number;
+  totalBatches: number;
+  succeededBatches: number;
+  failedBatches: number;
+  batches: N8NBatchResult[];
+}
+
+// Tipos para confirmação assíncrona do processamento pelo N8N (callback)
+export type RunState = 'awaiting-callback' | 'completed' | 'partial' | 'failed';
+
+export interface RunCallbackPayload {
+  runId: string;
+  batchIndex?: number;
+  status: 'success' | 'error';
+  rowsInserted: number;
+  errors: string[];
+}
+
+export interface RunBatchCallback {
+  batchIndex?: number;
+  status: 'success' | 'error';
+  rowsInserted: number;
+  errors: string[];
+  receivedAt: string;
+}
+
+export interface RunStatus {
+  runId: string;
+  state: RunState;
+  source: string;
+  usersCount: number;
+  expectedCallbacks?: number;
+  rowsInserted: number;
+  errors: string[];
+  callbacks: RunBatchCallback[];
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface RunStatusConfig {
+  file?: string;
+}
+
+// Tipos para Idempotency-Key
+export interface IdempotencyRecord {
+  key: string;
+  fingerprint: string;
+  state: 'in-flight' | 'completed';
+  statusCode?: number;
+  body?: unknown;
+  createdAt: string;
+  expiresAt: number;
+}
+
+export interface IdempotencyStore {
+  readonly type: IdempotencyStoreType;
+  /**
+   * Reserva a chave de forma atômica
+   * @returns null se a chave foi reservada; caso contrário, o registro existente
+   */
+  acquire(key: string, fingerprint: string, ttlMs: number): Promise<IdempotencyRecord | null>;
+  complete(key: string, statusCode: number, body: unknown): Promise<void>;
+  release(key: string): Promise<void>;
+}
+
+// Tipos para o fluxo de execução (fetch → decrypt → send)
+export type DataFlowStage = 'fetching' | 'decrypting' | 'sending';
+
+// Caminho de descriptografia escolhido pelo tamanho do envelope (ou streaming de ponta a ponta)
+export type DecryptionPath = 'buffer' | 'worker' | 'streams';
+
+export interface DataFlowHooks {
+  onStage?: (stage: DataFlowStage) => void;
+  onDecryptionPath?: (path: DecryptionPath) => void;
+  signal?: AbortSignal;
+}
+
+// Origem do disparo de uma execução registrada no histórico
+export type RunTrigger = 'api' | 'job' | 'schedule';
+
+export interface DataFlowContext extends DataFlowHooks {
+  runId?: string;
+  trigger?: RunTrigger;
+  jobId?: string;
+  scheduleId?: string;
+}
+
+// Tipos para sincronização incremental com o N8N
+export type SyncMode = 'full' | 'incremental';
+
+// Alterações desde a última sincronização; removed contém os emails normalizados
+export interface SyncDelta {
+  added: User[];
+  updated: User[];
+  removed: string[];
+}
+
+export interface SyncSummary {
+  mode: SyncMode;
+  added?: number;
+  updated?: number;
+  removed?: number;
+  unchanged?: number;
+}
+
+export interface DataFlowResult {
+  runId: string;
+  source: DataSourceName;
+  processing: 'buffer' | 'stream';
+  users: User[];
+  usersCount: number;
+  deliveredUsers: number;
+  delivery?: N8NDeliverySummary;
+  stream?: StreamProcessingResult;
+  validation: ValidationReport;
+  normalization: NormalizationReport;
+  partial: boolean;
+  sync: SyncSummary;
+  decryptionPath?: DecryptionPath;
+  n8nStatusCode?: number;
+}
+
+// Resultado do dry-run: o que seria enviado ao N8N, sem chamar o webhook
+export interface PreviewBatch {
+  index: number;
+  usersCount: number;
+  bytes: number;
+}
+
+export interface PreviewTimings {
+  fetchingMs: number;
+  decryptingMs: number;
+  payloadMs: number;
+  totalMs: number;
+}
+
+export interface DataFlowPreview {
+  source: DataSourceName;
+  users: User[];
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  validation: ValidationReport;
+  normalization: NormalizationReport;
+  sync: SyncSummary;
+  payload: {
+    totalBatches: number;
+    batchSize: number;
+    batches: PreviewBatch[];
+    sample?: N8NProcessPayload | N8NSyncPayload;
+  };
+  stats: {
+    usersCount: number;
+    payloadBytes: number;
+    timings: PreviewTimings;
+  };
+}
+
+// Tipos para importação direta de usuários
+export type ImportFormat = 'json' | 'ndjson' | 'csv';
+
+export interface ImportRowError {
+  line: number;
+  field?: string;
+  reason: string;
+  value?: string;
+}
+
+export interface ImportResult {
+  runId: string;
+  format: ImportFormat;
+  usersCount: number;
+  deliveredUsers: number;
+  delivery: N8NDeliverySummary;
+  normalization: NormalizationReport;
+  partial: boolean;
+}
+
+// Tipos para o repositório local de usuários (/api/users)
+export type UserRepositoryType = 'memory' | 'sqlite';
+
+export interface StoredUser extends User {
+  id: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UserRepository {
+  readonly type: UserRepositoryType;
+  list(): Promise<StoredUser[]>;
+  findById(id: number): Promise<StoredUser | undefined>;
+  // Falha com 409 se o email já pertencer a outro usuário
+  create(user: User): Promise<StoredUser>;
+  update(id: number, user: User): Promise<StoredUser | undefined>;
+  remove(id: number): Promise<boolean>;
+  // Insere ou atualiza por email; retorna os usuários com id, na mesma ordem
+  upsertMany(users: User[]): Promise<StoredUser[]>;
+  // Remove os usuários do escopo (todos, sem escopo); retorna quantos foram removidos
+  removeWhere(scope?: ClearScope): Promise<number>;
+}
+
+// Tipos para limpeza parcial e confirmação da limpeza completa
+export interface ClearScope {
+  emails?: string[];
+  // Data ISO 8601: remove registros criados antes dela
+  createdBefore?: string;
+}
+
+export interface ClearRequest extends ClearScope {
+  confirmationToken?: string;
+}
+
+export interface ClearConfirmation {
+  confirmationToken: string;
+  expiresAt: string;
+  // Registros que seriam removidos, segundo o webhook de leitura
+  previewCount: number;
+}
+
+// Tipos para consulta e exportação dos dados salvos (GET /get-data)
+export type ExportFormat = 'json' | 'csv' | 'ndjson';
+
+export interface DataQuery {
+  page?: number;
+  pageSize?: number;
+  // Campos separados por vírgula; prefixo "-" para ordem decrescente (ex.: -created_at,nome)
+  sort?: string;
+  search?: string;
+  nome?: string;
+  email?: string;
+  phone?: string;
+  format?: ExportFormat;
+}
+
+export interface RecordsPage<T> {
+  records: T[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+// Tipos para jobs assíncronos do fluxo de execução
+// partial: execução concluída com parte dos lotes recusada pelo N8N (HTTP 207 no modo síncrono)
+export type JobState = 'queued' | DataFlowStage | 'succeeded' | 'partial' | 'failed' | 'cancelled';
+
+export interface JobStepTiming {
+  stage: DataFlowStage;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+}
+
+export interface JobCounts {
+  usersCount: number;
+  deliveredUsers: number;
+  rejected: number;
+  batches: number;
+  failedBatches: number;
+}
+
+export interface Job {
+  id: string;
+  runId: string;
+  state: JobState;
+  options: ExecuteOptions;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  steps: JobStepTiming[];
+  counts: JobCounts;
+  validation?: ValidationReport;
+  normalization?: NormalizationReport;
+  error?: string;
+}
+
+// Tipos para o histórico de execuções
+export type RunOperation = 'execute' | 'clear' | 'import';
+
+export type RunOutcome = 'succeeded' | 'partial' | 'failed' | 'cancelled';
+
+export interface RunRecord {
+  id: string;
+  operation: RunOperation;
+  trigger: RunTrigger;
+  status: RunOutcome;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  jobId?: string;
+  scheduleId?: string;
+  source?: DataSourceName;
+  usersCount?: number;
+  deliveredUsers?: number;
+  rejected?: number;
+  decryptionPath?: DecryptionPath;
+  n8nStatusCode?: number;
+  error?: string;
+}
+
+export interface RunHistoryQuery {
+  page: number;
+  pageSize: number;
+  status?: RunOutcome[];
+  operation?: RunOperation;
+  from?: Date;
+  to?: Date;
+}
+
+export interface RunHistoryPage {
+  records: RunRecord[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface RunHistoryConfig {
+  file?: string;
+}
+
+// Tipos para execuções agendadas
+export type ScheduleAction = 'execute' | 'refresh';
+
+// Execução perdida (processo parado no horário): ignorar ou executar uma vez ao reiniciar
+export type MissedRunPolicy = 'skip' | 'run-once';
+
+export interface ScheduleInput {
+  name?: string;
+  cron: string;
+  action: ScheduleAction;
+  options: ExecuteOptions;
+  missedRunPolicy: MissedRunPolicy;
+}
+
+export interface Schedule extends ScheduleInput {
+  id: string;
+  createdAt: string;
+  nextRunAt: string;
+  running: boolean;
+  lastRunAt?: string;
+  lastStatus?: RunOutcome | 'skipped';
+  lastError?: string;
 }
 
 // Tipos para logs
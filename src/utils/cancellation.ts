@@ -0,0 +1,10 @@
+import { OperationCancelledError } from '@/middleware/errorHandler';
+
+/**
+ * Interrompe a execução se o sinal de cancelamento foi acionado
+ */
+export const throwIfCancelled = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new OperationCancelledError();
+  }
+};
@@ -0,0 +1,38 @@
+/**
+ * Aplica uma função assíncrona a cada item com no máximo `limit` execuções simultâneas,
+ * preservando a ordem dos resultados
+ * @param items - Itens a processar
+ * @param limit - Quantidade máxima de execuções em paralelo
+ * @param fn - Função aplicada a cada item
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, () => worker());
+  await Promise.all(workers);
+
+  return results;
+};
+
+/**
+ * Divide um array em lotes de tamanho fixo
+ */
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
@@ -0,0 +1,68 @@
+import { CustomError } from '@/middleware/errorHandler';
+import { nextCronDate, parseCron } from '@/utils/cron';
+
+// Datas no fuso do processo, como o agendador as calcula
+const local = (month: number, day: number, hour = 0, minute = 0): Date => new Date(2024, month - 1, day, hour, minute);
+
+const next = (expression: string, after: Date): Date => nextCronDate(parseCron(expression), after);
+
+describe('parseCron', () => {
+  it('expande asterisco, listas, intervalos e passos', () => {
+    const cron = parseCron('*/15 8-10,22 1 */6 1-5/2');
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([8, 9, 10, 22]);
+    expect([...cron.daysOfMonth]).toEqual([1]);
+    expect([...cron.months]).toEqual([1, 7]);
+    expect([...cron.daysOfWeek]).toEqual([1, 3, 5]);
+    expect(cron).toMatchObject({ restrictedDayOfMonth: true, restrictedDayOfWeek: true });
+  });
+
+  it('aceita passo a partir de um valor e domingo como 7', () => {
+    expect([...parseCron('50/5 * * * *').minutes]).toEqual([50, 55]);
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it.each([
+    ['0 0 * *', 'são esperados 5 campos'],
+    ['60 * * * *', 'campo minuto'],
+    ['* 24 * * *', 'campo hora'],
+    ['* * 0 * *', 'campo dia do mês'],
+    ['* * * 13 *', 'campo mês'],
+    ['* * * * 8', 'campo dia da semana'],
+    ['5-1 * * * *', 'campo minuto'],
+    ['*/0 * * * *', 'passo inválido'],
+    ['a * * * *', 'campo minuto']
+  ])('recusa "%s"', (expression, detail) => {
+    expect(() => parseCron(expression)).toThrow(CustomError);
+    expect(() => parseCron(expression)).toThrow(detail);
+  });
+});
+
+describe('nextCronDate', () => {
+  it('retorna a próxima ocorrência estritamente posterior, ignorando segundos', () => {
+    const after = new Date(2024, 0, 1, 10, 15, 30);
+
+    expect(next('*/15 * * * *', after)).toEqual(local(1, 1, 10, 30));
+    expect(next('15 10 * * *', after)).toEqual(local(1, 2, 10, 15));
+  });
+
+  it('avança hora, dia, mês e ano', () => {
+    expect(next('0 * * * *', local(1, 1, 23, 59))).toEqual(local(1, 2, 0, 0));
+    expect(next('30 9 1 * *', local(1, 31, 12))).toEqual(local(2, 1, 9, 30));
+    expect(next('0 0 1 1 *', local(12, 31, 23, 59))).toEqual(new Date(2025, 0, 1, 0, 0));
+  });
+
+  it('com dia do mês e dia da semana restritos, basta um dos dois coincidir', () => {
+    // 2024-01-03 é quarta-feira: o dia 5 (sexta) chega antes da próxima segunda (dia 8)
+    expect(next('0 12 5 * 1', local(1, 3))).toEqual(local(1, 5, 12));
+    expect(next('0 12 20 * 1', local(1, 3))).toEqual(local(1, 8, 12));
+    // Apenas dia da semana: segunda-feira seguinte
+    expect(next('0 12 * * 1', local(1, 3))).toEqual(local(1, 8, 12));
+  });
+
+  it('encontra 29 de fevereiro e recusa datas impossíveis', () => {
+    expect(next('0 0 29 2 *', local(3, 1))).toEqual(new Date(2028, 1, 29));
+    expect(() => next('0 0 31 2 *', local(1, 1))).toThrow('nenhuma ocorrência encontrada');
+  });
+});
@@ -0,0 +1,139 @@
+import { CustomError } from '@/middleware/errorHandler';
+
+// Expressão cron de 5 campos já expandida: minuto, hora, dia do mês, mês e dia da semana
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron padrão: com dia do mês e dia da semana restritos, basta um dos dois coincidir
+  restrictedDayOfMonth: boolean;
+  restrictedDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: 'minuto', min: 0, max: 59 },
+  { name: 'hora', min: 0, max: 23 },
+  { name: 'dia do mês', min: 1, max: 31 },
+  { name: 'mês', min: 1, max: 12 },
+  { name: 'dia da semana', min: 0, max: 7 }
+];
+
+// Limite de iterações na busca da próxima ocorrência (expressões impossíveis, ex.: 31 de fevereiro)
+const MAX_ITERATIONS = 100000;
+
+const invalid = (expression: string, detail: string): CustomError =>
+  new CustomError(`Expressão cron inválida "${expression}": ${detail}`, 400);
+
+const parseField = (expression: string, part: string, field: typeof FIELDS[number]): Set<number> => {
+  const values = new Set<number>();
+
+  for (const item of part.split(',')) {
+    const [range, stepText] = item.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw invalid(expression, `passo inválido no campo ${field.name}`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+
+    if (range !== '*') {
+      const [startText, endText] = range.split('-');
+      start = Number(startText);
+      end = endText === undefined ? (stepText === undefined ? start : field.max) : Number(endText);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > field.max || start > end) {
+      throw invalid(expression, `valor fora do intervalo ${field.min}-${field.max} no campo ${field.name}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Interpreta uma expressão cron de 5 campos (suporta *, listas, intervalos e passos)
+ * @throws CustomError 400 para expressões inválidas
+ */
+export const parseCron = (expression: string): CronExpression => {
+  const parts = expression.trim().split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw invalid(expression, 'são esperados 5 campos (minuto hora dia mês dia-da-semana)');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(expression, part, FIELDS[index])
+  );
+
+  // Domingo pode ser 0 ou 7
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source: expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictedDayOfMonth: parts[2] !== '*',
+    restrictedDayOfWeek: parts[4] !== '*'
+  };
+};
+
+const matchesDay = (cron: CronExpression, date: Date): boolean => {
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+
+  if (cron.restrictedDayOfMonth && cron.restrictedDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+};
+
+/**
+ * Calcula a próxima ocorrência estritamente posterior a `after`, no fuso horário do processo
+ */
+export const nextCronDate = (cron: CronExpression, after: Date): Date => {
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return date;
+  }
+
+  throw invalid(cron.source, 'nenhuma ocorrência encontrada');
+};
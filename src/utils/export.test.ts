@@ -0,0 +1,42 @@
+import { toCsv, toNdjson } from '@/utils/export';
+
+// Linhas do CSV sem o BOM e sem a quebra final
+const csvLines = (csv: string): string[] => csv.replace(/^\uFEFF/, '').split('\r\n').slice(0, -1);
+
+describe('toCsv', () => {
+  it('gera cabeçalho com a união dos campos, BOM e CRLF', () => {
+    const csv = toCsv([{ nome: 'Ana', email: 'ana@email.com' }, { nome: 'Bia', phone: '+5511999999999' }]);
+
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    expect(csvLines(csv)).toEqual([
+      'nome,email,phone',
+      'Ana,ana@email.com,',
+      'Bia,,+5511999999999'
+    ]);
+  });
+
+  it.each([
+    ['=HYPERLINK("http://x")', `"'=HYPERLINK(""http://x"")"`],
+    ['@SUM(A1:A2)', "'@SUM(A1:A2)"],
+    ['+cmd|calc', "'+cmd|calc"],
+    ['-2+3+cmd', "'-2+3+cmd"],
+    ['\t=1', "'\t=1"]
+  ])('neutraliza fórmulas: %j', (value, cell) => {
+    expect(csvLines(toCsv([{ nome: value }]))[1]).toBe(cell);
+  });
+
+  it.each(['+55 (11) 99999-9999', '-42', '-1.5', '+5511999999999'])('mantém números e telefones: %j', value => {
+    expect(csvLines(toCsv([{ phone: value }]))[1]).toBe(value);
+  });
+
+  it('coloca entre aspas valores com vírgula, aspas, quebras de linha ou espaços nas pontas', () => {
+    expect(csvLines(toCsv([{ a: 'Silva, Ana', b: 'diz "oi"', c: ' x', d: { y: 1 } }]))[1])
+      .toBe('"Silva, Ana","diz ""oi"""," x","{""y"":1}"');
+  });
+});
+
+describe('toNdjson', () => {
+  it('gera um objeto JSON por linha', () => {
+    expect(toNdjson([{ id: 1 }, { id: 2 }])).toBe('{"id":1}\n{"id":2}\n');
+  });
+});
@@ -0,0 +1,40 @@
+import { DataRecord } from '@/utils/records';
+
+// Células iniciadas por estes caracteres seriam interpretadas como fórmula por planilhas;
+// "+" e "-" seguidos apenas de dígitos (telefones, números) são mantidos
+const FORMULA_PREFIX = /^(?:[=@\t\r]|[+-](?![\d\s().-]*$))/;
+
+const toCell = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  if (FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializa registros em CSV (RFC 4180). As colunas são a união dos campos na ordem em que
+ * aparecem; o BOM garante a leitura de acentos em planilhas.
+ */
+export const toCsv = (records: DataRecord[]): string => {
+  const columns = [...new Set(records.flatMap(record => Object.keys(record)))];
+
+  const lines = [
+    columns.map(toCell).join(','),
+    ...records.map(record => columns.map(column => toCell(record[column])).join(','))
+  ];
+
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+/**
+ * Serializa registros em NDJSON: um objeto JSON por linha
+ */
+export const toNdjson = (records: DataRecord[]): string =>
+  records.map(record => `${JSON.stringify(record)}\n`).join('');
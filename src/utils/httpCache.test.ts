@@ -0,0 +1,28 @@
+import { matchesIfNoneMatch, strongEtag } from '@/utils/httpCache';
+
+describe('strongEtag', () => {
+  it('é estável para o mesmo corpo e muda com qualquer alteração', () => {
+    const etag = strongEtag('{"data":[1]}');
+
+    expect(etag).toMatch(/^"[A-Za-z0-9_-]{43}"$/);
+    expect(strongEtag('{"data":[1]}')).toBe(etag);
+    expect(strongEtag('{"data":[2]}')).not.toBe(etag);
+  });
+});
+
+describe('matchesIfNoneMatch', () => {
+  const etag = strongEtag('corpo');
+
+  it.each([
+    [etag, true],
+    [`W/${etag}`, true],
+    [`"outro", ${etag}`, true],
+    ['*', true],
+    ['"outro"', false],
+    [etag.replace(/"/g, ''), false],
+    [undefined, false],
+    ['', false]
+  ])('If-None-Match %j → %s', (header, expected) => {
+    expect(matchesIfNoneMatch(header, etag)).toBe(expected);
+  });
+});
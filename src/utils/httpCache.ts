@@ -0,0 +1,22 @@
+import { createHash } from 'crypto';
+
+/**
+ * ETag forte: hash SHA-256 do corpo exato da resposta
+ */
+export const strongEtag = (body: string): string =>
+  `"${createHash('sha256').update(body).digest('base64url')}"`;
+
+/**
+ * Verifica se o If-None-Match do cliente corresponde ao ETag atual.
+ * Segue a comparação fraca da RFC 9110 (prefixo W/ ignorado) e aceita "*".
+ */
+export const matchesIfNoneMatch = (header: string | undefined, etag: string): boolean => {
+  if (!header) {
+    return false;
+  }
+
+  return header
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .some(tag => tag === '*' || tag === etag);
+};
@@ -0,0 +1,51 @@
+import { parseCsv, parseNdjson } from '@/utils/importParsers';
+
+describe('parseNdjson', () => {
+  it('interpreta um objeto por linha, ignora linhas em branco e aponta JSON inválido', () => {
+    const result = parseNdjson('{"nome":"Ana"}\n\n{"nome":\n{"nome":"Bia"}\n');
+
+    expect(result.records).toEqual([
+      { line: 1, record: { nome: 'Ana' } },
+      { line: 4, record: { nome: 'Bia' } }
+    ]);
+    expect(result.errors).toEqual([{ line: 3, reason: 'JSON inválido' }]);
+  });
+});
+
+describe('parseCsv', () => {
+  it('mapeia o cabeçalho com aliases em qualquer ordem', () => {
+    const result = parseCsv('\uFEFFTelefone,E-mail,Name\r\n+5511999999999,ana@email.com,Ana\r\n');
+
+    expect(result.errors).toEqual([]);
+    expect(result.records).toEqual([
+      { line: 2, record: { nome: 'Ana', email: 'ana@email.com', phone: '+5511999999999' } }
+    ]);
+  });
+
+  it('detecta ponto e vírgula e aceita campos entre aspas com quebras de linha', () => {
+    const result = parseCsv('nome;email;phone\n"Silva; Ana ""A""\nFilha";ana@email.com;1\nBia;bia@email.com;2');
+
+    expect(result.records).toEqual([
+      { line: 2, record: { nome: 'Silva; Ana "A"\nFilha', email: 'ana@email.com', phone: '1' } },
+      { line: 4, record: { nome: 'Bia', email: 'bia@email.com', phone: '2' } }
+    ]);
+  });
+
+  it('aponta colunas ausentes no cabeçalho sem interpretar as linhas', () => {
+    const result = parseCsv('nome,email\nAna,ana@email.com');
+
+    expect(result.records).toEqual([]);
+    expect(result.errors).toEqual([
+      { line: 1, field: 'phone', reason: 'Coluna obrigatória ausente no cabeçalho: phone' }
+    ]);
+  });
+
+  it('aponta linhas com número de colunas diferente e aspas não fechadas', () => {
+    expect(parseCsv('nome,email,phone\nAna,ana@email.com\n').errors).toEqual([
+      { line: 2, reason: 'Linha com 2 colunas, esperadas 3' }
+    ]);
+    expect(parseCsv('nome,email,phone\n"Ana,ana@email.com,1').errors).toEqual([
+      { line: 2, reason: 'Aspas não fechadas' }
+    ]);
+  });
+});
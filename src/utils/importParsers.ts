@@ -0,0 +1,156 @@
+import { ImportRowError } from '@/types';
+
+// Registro bruto extraído de um arquivo de importação, com a linha de origem (base 1)
+export interface ParsedImportRecord {
+  line: number;
+  record: unknown;
+}
+
+export interface ParsedImport {
+  records: ParsedImportRecord[];
+  errors: ImportRowError[];
+}
+
+// Nomes de coluna aceitos no cabeçalho do CSV para cada campo do usuário
+const CSV_HEADER_ALIASES: Record<string, string[]> = {
+  nome: ['nome', 'name'],
+  email: ['email', 'e-mail'],
+  phone: ['phone', 'telefone', 'celular']
+};
+
+/**
+ * Interpreta NDJSON: um objeto JSON por linha; linhas em branco são ignoradas
+ */
+export const parseNdjson = (text: string): ParsedImport => {
+  const result: ParsedImport = { records: [], errors: [] };
+
+  text.split('\n').forEach((content, index) => {
+    if (!content.trim()) {
+      return;
+    }
+
+    try {
+      result.records.push({ line: index + 1, record: JSON.parse(content) });
+    } catch {
+      result.errors.push({ line: index + 1, reason: 'JSON inválido' });
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Interpreta CSV (RFC 4180: campos entre aspas podem conter delimitador, aspas duplicadas e quebras de linha).
+ * A primeira linha é o cabeçalho, mapeado para nome, email e phone em qualquer ordem;
+ * o delimitador é vírgula ou ponto e vírgula, detectado pelo cabeçalho.
+ */
+export const parseCsv = (text: string): ParsedImport => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const { rows, errors } = splitCsvRows(content, delimiter);
+  const result: ParsedImport = { records: [], errors };
+
+  const header = rows.shift();
+  if (!header) {
+    result.errors.push({ line: 1, reason: 'Cabeçalho ausente' });
+    return result;
+  }
+
+  const columns = header.fields.map(name => name.trim().toLowerCase());
+  const positions: Record<string, number> = {};
+
+  for (const [field, aliases] of Object.entries(CSV_HEADER_ALIASES)) {
+    const position = columns.findIndex(column => aliases.includes(column));
+    if (position === -1) {
+      result.errors.push({ line: header.line, field, reason: `Coluna obrigatória ausente no cabeçalho: ${field}` });
+    }
+    positions[field] = position;
+  }
+
+  if (result.errors.some(error => error.line === header.line)) {
+    return result;
+  }
+
+  for (const row of rows) {
+    if (row.fields.length !== columns.length) {
+      result.errors.push({
+        line: row.line,
+        reason: `Linha com ${row.fields.length} colunas, esperadas ${columns.length}`
+      });
+      continue;
+    }
+
+    const record = Object.fromEntries(
+      Object.entries(positions).map(([field, position]) => [field, row.fields[position]])
+    );
+    result.records.push({ line: row.line, record });
+  }
+
+  return result;
+};
+
+const splitCsvRows = (
+  content: string,
+  delimiter: string
+): { rows: Array<{ line: number; fields: string[] }>; errors: ImportRowError[] } => {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  const errors: ImportRowError[] = [];
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = (): void => {
+    fields.push(field);
+    // Linhas em branco são ignoradas
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+      line++;
+      rowLine = line;
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    errors.push({ line: rowLine, reason: 'Aspas não fechadas' });
+  } else {
+    endRow();
+  }
+
+  return { rows, errors };
+};
@@ -0,0 +1,70 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonFile } from '@/utils/jsonFile';
+
+describe('JsonFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-file-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('retorna undefined quando o arquivo não existe', async () => {
+    const file = new JsonFile(path.join(dir, 'ausente.json'), 'teste');
+
+    await expect(file.read()).resolves.toBeUndefined();
+    await expect(file.readText()).resolves.toBeUndefined();
+  });
+
+  it('grava criando o diretório e sem deixar o arquivo temporário', async () => {
+    const filePath = path.join(dir, 'sub', 'estado.json');
+    const file = new JsonFile(filePath, 'teste');
+
+    await file.write({ a: 1 });
+
+    await expect(file.read()).resolves.toEqual({ a: 1 });
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(['estado.json']);
+  });
+
+  it('aplica as gravações na ordem das chamadas, com o valor do momento da chamada', async () => {
+    const file = new JsonFile(path.join(dir, 'estado.json'), 'teste');
+    const state = { version: 1 };
+
+    const first = file.write(state);
+    state.version = 2;
+    const second = file.write(state);
+    await Promise.all([first, second]);
+
+    await expect(file.read()).resolves.toEqual({ version: 2 });
+  });
+
+  it('acrescenta linhas JSON com append', async () => {
+    const file = new JsonFile(path.join(dir, 'historico.jsonl'), 'teste');
+
+    await file.append({ id: 1 });
+    await file.append({ id: 2 });
+
+    await expect(file.readText()).resolves.toBe('{"id":1}\n{"id":2}\n');
+  });
+
+  it('trata JSON inválido como arquivo vazio', async () => {
+    const filePath = path.join(dir, 'corrompido.json');
+    fs.writeFileSync(filePath, '{"a":');
+
+    await expect(new JsonFile(filePath, 'teste').read()).resolves.toBeUndefined();
+  });
+
+  it('não rejeita quando a gravação falha', async () => {
+    // O caminho do diretório é um arquivo: mkdir falha
+    const blocker = path.join(dir, 'arquivo');
+    fs.writeFileSync(blocker, '');
+    const file = new JsonFile(path.join(blocker, 'estado.json'), 'teste');
+
+    await expect(file.write({ a: 1 })).resolves.toBeUndefined();
+  });
+});
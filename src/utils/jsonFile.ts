@@ -0,0 +1,99 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '@/utils/logger';
+
+const errorMessageOf = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Erro desconhecido';
+
+/**
+ * Arquivo de persistência dos stores em processo (idempotência, agendamentos, estado de
+ * sincronização, histórico). Falhas de leitura e gravação são apenas logadas: o store segue
+ * em memória.
+ *
+ * As gravações são serializadas em uma fila, na ordem das chamadas, para que uma escrita
+ * antiga nunca sobrescreva uma mais recente. write() grava em um arquivo temporário e o
+ * renomeia sobre o original: o rename é atômico, então uma queda no meio da gravação deixa
+ * o conteúdo anterior intacto em vez de um JSON truncado.
+ */
+export class JsonFile {
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath - Caminho do arquivo (o diretório é criado na primeira gravação)
+   * @param label - Descrição do conteúdo, usada nos logs
+   */
+  constructor(public readonly filePath: string, private readonly label: string) {}
+
+  /**
+   * Lê o conteúdo bruto do arquivo
+   * @returns undefined se o arquivo não existir ou não puder ser lido
+   */
+  public async readText(): Promise<string | undefined> {
+    try {
+      return await fs.readFile(this.filePath, 'utf8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('Arquivo ilegível, iniciando sem os dados salvos', {
+          file: this.filePath,
+          content: this.label,
+          error: errorMessageOf(error)
+        });
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Lê e interpreta o arquivo como JSON
+   * @returns undefined se o arquivo não existir ou não for um JSON válido
+   */
+  public async read<T>(): Promise<T | undefined> {
+    const content = await this.readText();
+    if (content === undefined) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(content) as T;
+    } catch (error: unknown) {
+      logger.error('Arquivo com JSON inválido, iniciando sem os dados salvos', {
+        file: this.filePath,
+        content: this.label,
+        error: errorMessageOf(error)
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Substitui o conteúdo do arquivo; o valor é serializado na chamada
+   */
+  public write(value: unknown, space?: number): Promise<void> {
+    const snapshot = JSON.stringify(value, null, space);
+    const tempFile = `${this.filePath}.tmp`;
+
+    return this.enqueue(async () => {
+      await fs.writeFile(tempFile, snapshot, 'utf8');
+      await fs.rename(tempFile, this.filePath);
+    });
+  }
+
+  /**
+   * Acrescenta uma linha JSON ao fim do arquivo (JSON-lines)
+   */
+  public append(value: unknown): Promise<void> {
+    const line = `${JSON.stringify(value)}\n`;
+    return this.enqueue(() => fs.appendFile(this.filePath, line, 'utf8'));
+  }
+
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await operation();
+    }).catch((error: unknown) => {
+      logger.error('Erro ao gravar arquivo', { file: this.filePath, content: this.label, error: errorMessageOf(error) });
+    });
+
+    return this.writing;
+  }
+}
@@ -0,0 +1,43 @@
+import { User } from '@/types';
+
+/**
+ * Mascara dados pessoais para exibição em relatórios e logs
+ * @param field - Campo do usuário (nome, email, phone)
+ * @param value - Valor original
+ * @returns Valor mascarado
+ */
+export const maskPii = (field: string, value: unknown): string => {
+  if (value === undefined || value === null) {
+    return String(value);
+  }
+
+  const text = String(value);
+
+  if (text.length === 0) {
+    return '';
+  }
+
+  switch (field) {
+    case 'email': {
+      const [local, domain] = text.split('@');
+      const maskedLocal = `${local.slice(0, 1)}***`;
+      return domain !== undefined ? `${maskedLocal}@${domain.slice(0, 1)}***` : maskedLocal;
+    }
+    case 'phone': {
+      const digits = text.replace(/\D/g, '');
+      return `***${digits.slice(-2)}`;
+    }
+    default:
+      return `${text.slice(0, 1)}***`;
+  }
+};
+
+/**
+ * Mascara todos os campos pessoais de um usuário (o id é preservado)
+ */
+export const maskUser = (user: User): User => ({
+  ...user,
+  nome: maskPii('nome', user.nome),
+  email: maskPii('email', user.email),
+  phone: maskPii('phone', user.phone)
+});
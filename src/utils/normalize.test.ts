@@ -0,0 +1,42 @@
+import { normalizeEmail, normalizeName, toE164 } from '@/utils/normalize';
+
+describe('toE164', () => {
+  it.each([
+    ['11999999999', 'BR', '+5511999999999'],
+    ['(11) 99999-9999', 'BR', '+5511999999999'],
+    ['(11) 3333-4444', 'BR', '+551133334444'],
+    ['011 99999-9999', 'BR', '+5511999999999'],
+    ['5511999999999', 'BR', '+5511999999999'],
+    ['+55 11 99999-9999', 'BR', '+5511999999999'],
+    ['0055 11 99999-9999', 'BR', '+5511999999999'],
+    ['+1 (212) 555-0100', 'BR', '+12125550100'],
+    ['212 555 0100', 'US', '+12125550100'],
+    ['12125550100', 'US', '+12125550100'],
+    ['+351 912 345 678', 'XX', '+351912345678']
+  ])('converte %j (%s) para %s', (phone, region, expected) => {
+    expect(toE164(phone, region)).toBe(expected);
+  });
+
+  it.each([
+    ['', 'BR'],
+    ['sem telefone', 'BR'],
+    ['9999-9999', 'BR'],
+    ['119999999999999', 'BR'],
+    ['+1234567', 'BR'],
+    ['+1234567890123456', 'BR'],
+    ['11999999999', 'XX']
+  ])('retorna null para %j (%s)', (phone, region) => {
+    expect(toE164(phone, region)).toBeNull();
+  });
+});
+
+describe('normalizeName e normalizeEmail', () => {
+  it('colapsa espaços do nome e deixa o email em minúsculas', () => {
+    expect(normalizeName('  Ana   Maria  Silva ')).toBe('Ana Maria Silva');
+    expect(normalizeEmail(' Ana@Email.COM ')).toBe('ana@email.com');
+  });
+
+  it('compõe acentos do email em NFC', () => {
+    expect(normalizeEmail('jose\u0301@email.com')).toBe('jos\u00e9@email.com');
+  });
+});
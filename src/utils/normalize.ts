@@ -0,0 +1,64 @@
+// Código de discagem internacional e tamanhos válidos do número nacional (sem prefixo de tronco) por região
+export const PHONE_REGIONS: Record<string, { callingCode: string; nationalLengths: number[] }> = {
+  BR: { callingCode: '55', nationalLengths: [10, 11] },
+  AR: { callingCode: '54', nationalLengths: [10] },
+  CL: { callingCode: '56', nationalLengths: [9] },
+  CO: { callingCode: '57', nationalLengths: [10] },
+  MX: { callingCode: '52', nationalLengths: [10] },
+  US: { callingCode: '1', nationalLengths: [10] },
+  CA: { callingCode: '1', nationalLengths: [10] },
+  PT: { callingCode: '351', nationalLengths: [9] },
+  ES: { callingCode: '34', nationalLengths: [9] },
+  GB: { callingCode: '44', nationalLengths: [10] }
+};
+
+/**
+ * Remove espaços nas extremidades e colapsa espaços internos repetidos
+ */
+export const normalizeName = (nome: string): string => nome.trim().replace(/\s+/g, ' ');
+
+/**
+ * Forma canônica do email, usada também como chave de deduplicação e sincronização
+ */
+export const normalizeEmail = (email: string): string => email.normalize('NFC').trim().toLowerCase();
+
+/**
+ * Converte um telefone para E.164 (+5511999999999)
+ * @param phone - Telefone em formato livre: 11999999999, (11) 99999-9999, +55 11 99999-9999, 0055...
+ * @param defaultRegion - Região usada para números sem código do país
+ * @returns Telefone em E.164 ou null se não for possível interpretá-lo
+ */
+export const toE164 = (phone: string, defaultRegion: string): string | null => {
+  const text = phone.trim();
+  const digits = text.replace(/\D/g, '');
+
+  if (digits.length === 0) {
+    return null;
+  }
+
+  // Número internacional explícito: +<código do país> ou prefixo de discagem 00
+  if (text.startsWith('+') || digits.startsWith('00')) {
+    const international = digits.replace(/^00/, '');
+    return international.length >= 8 && international.length <= 15 ? `+${international}` : null;
+  }
+
+  const region = PHONE_REGIONS[defaultRegion];
+  if (!region) {
+    return null;
+  }
+
+  // Prefixo de tronco nacional (ex.: 011 99999-9999)
+  const national = digits.replace(/^0+/, '');
+
+  if (region.nationalLengths.includes(national.length)) {
+    return `+${region.callingCode}${national}`;
+  }
+
+  // Código do país sem o "+" (ex.: 5511999999999)
+  if (national.startsWith(region.callingCode) &&
+    region.nationalLengths.includes(national.length - region.callingCode.length)) {
+    return `+${national}`;
+  }
+
+  return null;
+};
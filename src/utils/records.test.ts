@@ -0,0 +1,39 @@
+import { extractRecords, queryRecords } from '@/utils/records';
+
+const records = Array.from({ length: 60 }, (_, index) => ({
+  id: index + 1,
+  nome: index % 2 === 0 ? `José ${index}` : `Maria ${index}`,
+  email: `u${index}@email.com`
+}));
+
+describe('queryRecords', () => {
+  it('sem page e pageSize, retorna todos os registros também em JSON', () => {
+    const result = queryRecords(records, { format: 'json' });
+
+    expect(result.records).toHaveLength(60);
+    expect(result).toMatchObject({ page: 1, total: 60, totalPages: 1 });
+  });
+
+  it('pagina quando page ou pageSize são informados', () => {
+    expect(queryRecords(records, { format: 'json', page: 2 }).records).toHaveLength(10);
+    expect(queryRecords(records, { format: 'csv', page: 3, pageSize: 25 })).toMatchObject({
+      records: records.slice(50),
+      totalPages: 3
+    });
+  });
+
+  it('filtra sem diferenciar acentos e ordena de forma decrescente', () => {
+    const result = queryRecords(records, { format: 'json', nome: 'jose', sort: '-id' });
+
+    expect(result.total).toBe(30);
+    expect(result.records[0]).toMatchObject({ id: 59 });
+  });
+});
+
+describe('extractRecords', () => {
+  it('encontra a lista na raiz ou em data, users, rows ou items', () => {
+    expect(extractRecords([{ id: 1 }, null])).toEqual([{ id: 1 }]);
+    expect(extractRecords({ rows: [{ id: 1 }] })).toEqual([{ id: 1 }]);
+    expect(extractRecords('texto')).toBeUndefined();
+  });
+});
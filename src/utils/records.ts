@@ -0,0 +1,107 @@
+import { DataQuery, RecordsPage } from '@/types';
+
+export type DataRecord = Record<string, unknown>;
+
+// Campos aceitos em sort; prefixo "-" indica ordem decrescente
+export const SORTABLE_FIELDS = ['id', 'nome', 'email', 'phone', 'created_at'];
+
+// Tamanho de página padrão quando apenas page é informado
+const DEFAULT_PAGE_SIZE = 50;
+
+// Propriedades em que o webhook de leitura pode devolver a lista de registros
+const LIST_PROPERTIES = ['data', 'users', 'rows', 'items'];
+
+/**
+ * Extrai a lista de registros da resposta do webhook de leitura
+ * (array na raiz ou em data, users, rows ou items; um objeto isolado vira lista de um item)
+ * @returns undefined se a resposta não contiver registros reconhecíveis
+ */
+export const extractRecords = (data: unknown): DataRecord[] | undefined => {
+  if (Array.isArray(data)) {
+    return data.filter((item): item is DataRecord => !!item && typeof item === 'object');
+  }
+
+  if (data && typeof data === 'object') {
+    const container = data as DataRecord;
+    const property = LIST_PROPERTIES.find(name => Array.isArray(container[name]));
+
+    if (property) {
+      return extractRecords(container[property]);
+    }
+    return [container];
+  }
+
+  return undefined;
+};
+
+// Comparação sem diferenciar maiúsculas e acentos
+const fold = (value: unknown): string =>
+  String(value ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const isMissing = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b), 'pt-BR', { sensitivity: 'base', numeric: true });
+};
+
+/**
+ * Aplica filtros, busca textual, ordenação e paginação aos registros.
+ * Sem page e pageSize, retorna todos os registros filtrados em qualquer formato
+ * (o frontend existente espera a lista completa).
+ */
+export const queryRecords = <T extends object>(records: T[], query: DataQuery): RecordsPage<T> => {
+  const search = query.search ? fold(query.search) : undefined;
+  const phoneDigits = query.phone?.replace(/\D/g, '');
+  const field = (record: T, name: string): unknown => (record as DataRecord)[name];
+
+  const matching = records
+    .filter(record => !query.nome || fold(field(record, 'nome')).includes(fold(query.nome)))
+    .filter(record => !query.email || fold(field(record, 'email')) === fold(query.email))
+    .filter(record => !phoneDigits || String(field(record, 'phone') ?? '').replace(/\D/g, '').includes(phoneDigits))
+    .filter(record => !search ||
+      fold(field(record, 'nome')).includes(search) || fold(field(record, 'email')).includes(search));
+
+  if (query.sort) {
+    const keys = query.sort.split(',').map(key => ({
+      name: key.replace(/^-/, ''),
+      direction: key.startsWith('-') ? -1 : 1
+    }));
+
+    matching.sort((a, b) => {
+      for (const { name, direction } of keys) {
+        const [valueA, valueB] = [field(a, name), field(b, name)];
+
+        // Valores ausentes ficam por último em qualquer direção
+        if (isMissing(valueA) || isMissing(valueB)) {
+          const result = Number(isMissing(valueA)) - Number(isMissing(valueB));
+          if (result !== 0) {
+            return result;
+          }
+          continue;
+        }
+
+        const result = compareValues(valueA, valueB);
+        if (result !== 0) {
+          return result * direction;
+        }
+      }
+      return 0;
+    });
+  }
+
+  const paginate = query.page !== undefined || query.pageSize !== undefined;
+  const page = query.page ?? 1;
+  const pageSize = paginate ? query.pageSize ?? DEFAULT_PAGE_SIZE : Math.max(matching.length, 1);
+  const start = (page - 1) * pageSize;
+
+  return {
+    records: matching.slice(start, start + pageSize),
+    page,
+    pageSize,
+    total: matching.length,
+    totalPages: Math.ceil(matching.length / pageSize)
+  };
+};
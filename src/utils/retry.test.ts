@@ -0,0 +1,85 @@
+import { AxiosError, AxiosHeaders, AxiosResponse } from 'axios';
+import { RetryOptions } from '@/types';
+import { backoffDelay, isRetryableError, isServiceFailure, withRetry } from '@/utils/retry';
+
+const httpError = (status: number): AxiosError => {
+  const response = { status, statusText: '', data: {}, headers: {}, config: { headers: new AxiosHeaders() } };
+  return new AxiosError(`Request failed with status code ${status}`, undefined, undefined, undefined, response as AxiosResponse);
+};
+
+const networkError = (code: string): AxiosError => new AxiosError(code, code);
+
+describe('isRetryableError', () => {
+  it.each([
+    [httpError(502), true, true],
+    [httpError(503), false, true],
+    [httpError(429), false, true],
+    [httpError(500), true, true],
+    [httpError(500), false, false],
+    [httpError(400), true, false],
+    [networkError('ECONNREFUSED'), false, true],
+    [networkError('ENOTFOUND'), false, true],
+    [networkError('ECONNRESET'), true, true],
+    [networkError('ECONNRESET'), false, false],
+    [networkError('ETIMEDOUT'), false, false],
+    [new Error('falha local'), true, false]
+  ])('%s (idempotente: %s) → %s', (error, idempotent, expected) => {
+    expect(isRetryableError(error, idempotent)).toBe(expected);
+  });
+});
+
+describe('isServiceFailure', () => {
+  it('conta 5xx, 429 e falhas de rede, mas não erros do cliente', () => {
+    expect(isServiceFailure(httpError(500))).toBe(true);
+    expect(isServiceFailure(httpError(429))).toBe(true);
+    expect(isServiceFailure(networkError('ECONNRESET'))).toBe(true);
+    expect(isServiceFailure(httpError(404))).toBe(false);
+    expect(isServiceFailure(new Error('falha local'))).toBe(false);
+  });
+});
+
+describe('backoffDelay', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('dobra o teto a cada tentativa, limitado ao máximo', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.999);
+
+    expect([0, 1, 2, 3, 4].map(attempt => backoffDelay(attempt, 100, 1000))).toEqual([99, 199, 399, 799, 999]);
+  });
+
+  it('aplica jitter total a partir de zero', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+
+    expect(backoffDelay(3, 100, 1000)).toBe(0);
+  });
+});
+
+describe('withRetry', () => {
+  const options: RetryOptions = { operation: 'teste', idempotent: false, maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+
+  it('repete erros repetíveis até conseguir', async () => {
+    const fn = jest.fn()
+      .mockRejectedValueOnce(networkError('ECONNREFUSED'))
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValue('ok');
+
+    await expect(withRetry(fn, options)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('desiste após maxRetries novas tentativas', async () => {
+    const fn = jest.fn().mockRejectedValue(httpError(503));
+
+    await expect(withRetry(fn, options)).rejects.toThrow('status code 503');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('não repete erros não repetíveis', async () => {
+    const fn = jest.fn().mockRejectedValue(httpError(500));
+
+    await expect(withRetry(fn, options)).rejects.toThrow('status code 500');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,91 @@
+import axios from 'axios';
+import { RetryOptions } from '@/types';
+import { logger } from '@/utils/logger';
+
+// Erros de rede em que o serviço pode ter recebido a requisição
+const AMBIGUOUS_NETWORK_CODES = ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE'];
+// Erros de rede em que a requisição certamente não foi processada
+const CONNECTION_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH'];
+// Status em que o proxy/gateway não encaminhou a requisição (ex.: n8n reiniciando)
+const UNAVAILABLE_STATUSES = [502, 503];
+
+/**
+ * Indica se o erro pode ser repetido com segurança.
+ * Chamadas não idempotentes só repetem quando a requisição certamente não foi processada.
+ */
+export const isRetryableError = (error: unknown, idempotent: boolean): boolean => {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+
+  const status = error.response?.status;
+  const code = error.code || '';
+
+  if (status !== undefined) {
+    if (UNAVAILABLE_STATUSES.includes(status) || status === 429) {
+      return true;
+    }
+    return idempotent && status >= 500;
+  }
+
+  if (CONNECTION_CODES.includes(code)) {
+    return true;
+  }
+
+  return idempotent && AMBIGUOUS_NETWORK_CODES.includes(code);
+};
+
+/**
+ * Indica se o erro representa indisponibilidade do serviço (5xx ou falha de rede)
+ */
+export const isServiceFailure = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+
+  const status = error.response?.status;
+  return status === undefined || status >= 500 || status === 429;
+};
+
+/**
+ * Atraso com backoff exponencial e jitter total: aleatório entre 0 e min(max, base * 2^tentativa)
+ */
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+};
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Executa a chamada com novas tentativas para erros repetíveis
+ * @param fn - Chamada a executar
+ * @param options - Política de retry e contexto para logs
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error: unknown) {
+      const canRetry = attempt < options.maxRetries && isRetryableError(error, options.idempotent);
+
+      if (!canRetry) {
+        throw error;
+      }
+
+      const delayMs = backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs);
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+
+      logger.warn('Chamada falhou, nova tentativa agendada', {
+        operation: options.operation,
+        attempt: attempt + 1,
+        maxRetries: options.maxRetries,
+        delayMs,
+        error: errorMessage,
+        status: axios.isAxiosError(error) ? error.response?.status : undefined
+      });
+
+      await sleep(delayMs);
+    }
+  }
+};
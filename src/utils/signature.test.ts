@@ -0,0 +1,73 @@
+import { AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import { config } from '@/config';
+import {
+  computeSignature,
+  isSignatureValid,
+  KEY_ID_HEADER,
+  SIGNATURE_HEADER,
+  signOutboundRequest,
+  TIMESTAMP_HEADER
+} from '@/utils/signature';
+
+// Vetor conhecido, conferido com: printf '%s' '<timestamp>.<corpo>' | openssl dgst -sha256 -hmac '<segredo>'
+const SECRET = 'segredo-compartilhado';
+const TIMESTAMP = '1700000000';
+const BODY = '{"users":[{"email":"ana@email.com"}]}';
+const BODY_SIGNATURE = 'sha256=478126e3c7a4b09273c974f570ebc0b67d53bd20dd2a1d15a335749b7c4b2f81';
+const EMPTY_BODY_SIGNATURE = 'sha256=d1e81e41a02bab9c4fbb682446067dcaa6089dad301d06330e310804af07f329';
+
+describe('computeSignature', () => {
+  it('assina "<timestamp>.<corpo>" com HMAC-SHA256 em hex', () => {
+    expect(computeSignature(SECRET, TIMESTAMP, BODY)).toBe(BODY_SIGNATURE);
+    expect(computeSignature(SECRET, TIMESTAMP, '')).toBe(EMPTY_BODY_SIGNATURE);
+  });
+});
+
+describe('isSignatureValid', () => {
+  it('aceita apenas a assinatura do mesmo segredo, timestamp e corpo', () => {
+    expect(isSignatureValid(SECRET, TIMESTAMP, BODY, BODY_SIGNATURE)).toBe(true);
+    expect(isSignatureValid(SECRET, '1700000001', BODY, BODY_SIGNATURE)).toBe(false);
+    expect(isSignatureValid(SECRET, TIMESTAMP, `${BODY} `, BODY_SIGNATURE)).toBe(false);
+    expect(isSignatureValid('outro-segredo', TIMESTAMP, BODY, BODY_SIGNATURE)).toBe(false);
+    expect(isSignatureValid(SECRET, TIMESTAMP, BODY, BODY_SIGNATURE.slice(0, -1))).toBe(false);
+  });
+});
+
+describe('signOutboundRequest', () => {
+  const originalSecret = config.webhookSigning.secret;
+
+  const request = (data?: unknown): InternalAxiosRequestConfig => ({ headers: new AxiosHeaders(), data });
+
+  afterEach(() => {
+    config.webhookSigning.secret = originalSecret;
+    jest.restoreAllMocks();
+  });
+
+  it('serializa o corpo e assina exatamente os bytes enviados', () => {
+    config.webhookSigning.secret = SECRET;
+    jest.spyOn(Date, 'now').mockReturnValue(Number(TIMESTAMP) * 1000 + 999);
+
+    const signed = signOutboundRequest(request(JSON.parse(BODY)));
+
+    expect(signed.data).toBe(BODY);
+    expect(signed.headers.get(TIMESTAMP_HEADER)).toBe(TIMESTAMP);
+    expect(signed.headers.get(SIGNATURE_HEADER)).toBe(BODY_SIGNATURE);
+    expect(signed.headers.get(KEY_ID_HEADER)).toBe(config.webhookSigning.keyId);
+  });
+
+  it('assina o corpo vazio quando não há dados', () => {
+    config.webhookSigning.secret = SECRET;
+    jest.spyOn(Date, 'now').mockReturnValue(Number(TIMESTAMP) * 1000);
+
+    expect(signOutboundRequest(request()).headers.get(SIGNATURE_HEADER)).toBe(EMPTY_BODY_SIGNATURE);
+  });
+
+  it('sem segredo configurado, não altera a requisição', () => {
+    config.webhookSigning.secret = undefined;
+
+    const signed = signOutboundRequest(request({ id: 1 }));
+
+    expect(signed.data).toEqual({ id: 1 });
+    expect(signed.headers.has(SIGNATURE_HEADER)).toBe(false);
+  });
+});
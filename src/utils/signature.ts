@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+import { InternalAxiosRequestConfig } from 'axios';
+import { config } from '@/config';
+
+export const SIGNATURE_HEADER = 'X-Signature';
+export const TIMESTAMP_HEADER = 'X-Timestamp';
+export const KEY_ID_HEADER = 'X-Signature-Key-Id';
+
+/**
+ * Calcula a assinatura HMAC-SHA256 de uma requisição
+ * @param secret - Segredo compartilhado
+ * @param timestamp - Unix timestamp em segundos
+ * @param body - Corpo exatamente como transmitido ('' quando não há corpo)
+ * @returns Assinatura no formato `sha256=<hex>`
+ */
+export const computeSignature = (secret: string, timestamp: string, body: string): string => {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+};
+
+/**
+ * Compara a assinatura recebida com a esperada em tempo constante
+ */
+export const isSignatureValid = (secret: string, timestamp: string, body: string, signature: string): boolean => {
+  const expected = Buffer.from(computeSignature(secret, timestamp, body));
+  const provided = Buffer.from(signature);
+
+  return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+};
+
+/**
+ * Interceptor do axios que assina as requisições de saída.
+ * O corpo é serializado aqui para que a assinatura cubra exatamente os bytes enviados.
+ * Sem N8N_SIGNING_SECRET configurado, a requisição segue sem assinatura.
+ */
+export const signOutboundRequest = (request: InternalAxiosRequestConfig): InternalAxiosRequestConfig => {
+  const { secret, keyId } = config.webhookSigning;
+
+  if (!secret) {
+    return request;
+  }
+
+  let body = '';
+  if (request.data !== undefined && request.data !== null) {
+    body = typeof request.data === 'string' ? request.data : JSON.stringify(request.data);
+    request.data = body;
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  request.headers.set(TIMESTAMP_HEADER, timestamp);
+  request.headers.set(SIGNATURE_HEADER, computeSignature(secret, timestamp, body));
+  request.headers.set(KEY_ID_HEADER, keyId);
+
+  return request;
+};
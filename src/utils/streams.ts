@@ -0,0 +1,210 @@
+import fs from 'fs';
+import { Transform, TransformCallback, Writable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Decodifica um stream de texto hexadecimal em bytes, chunk a chunk.
+ * Caracteres ímpares no fim de um chunk são guardados para o próximo.
+ */
+export class HexDecodeTransform extends Transform {
+  private remainder = '';
+
+  _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+    const text = this.remainder + chunk.toString('latin1').replace(/\s+/g, '');
+
+    if (!/^[0-9a-fA-F]*$/.test(text)) {
+      callback(new Error('Conteúdo hexadecimal inválido no stream'));
+      return;
+    }
+
+    const evenLength = text.length - (text.length % 2);
+    this.remainder = text.slice(evenLength);
+    callback(null, Buffer.from(text.slice(0, evenLength), 'hex'));
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (this.remainder.length > 0) {
+      callback(new Error('Conteúdo hexadecimal com tamanho ímpar no stream'));
+      return;
+    }
+    callback();
+  }
+}
+
+// Elemento emitido pelo JsonArrayParser: o valor é envolvido porque um null enviado
+// por push() encerraria o stream de objetos
+export interface JsonArrayElement {
+  value: unknown;
+}
+
+/**
+ * Faz o parse incremental de um array JSON, emitindo cada elemento como JsonArrayElement.
+ * Apenas o elemento corrente fica em memória.
+ */
+export class JsonArrayParser extends Transform {
+  private readonly decoder = new StringDecoder('utf8');
+  private started = false;
+  private ended = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private current = '';
+  private index = 0;
+
+  constructor(private readonly maxElementSize: number = 1024 * 1024) {
+    super({ readableObjectMode: true });
+  }
+
+  _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      this.consume(this.decoder.write(chunk));
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      this.consume(this.decoder.end());
+      if (!this.ended) {
+        throw new Error('Array JSON incompleto no stream');
+      }
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  private consume(text: string): void {
+    // Um elemento iniciado no chunk anterior continua a partir do início deste
+    let elementStart = this.current.length > 0 ? 0 : -1;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (!this.started) {
+        if (/\s/.test(char)) continue;
+        if (char !== '[') {
+          throw new Error('Dados descriptografados devem ser um array');
+        }
+        this.started = true;
+        continue;
+      }
+
+      if (this.ended) {
+        if (!/\s/.test(char)) {
+          throw new Error('Conteúdo inesperado após o fim do array JSON');
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      // Separadores no nível do array
+      if (this.depth === 0 && (char === ',' || char === ']')) {
+        if (elementStart >= 0) {
+          this.current += text.slice(elementStart, i);
+          elementStart = -1;
+        }
+        this.emitElement(char === ']');
+        if (char === ']') {
+          this.ended = true;
+        }
+        continue;
+      }
+
+      if (elementStart < 0) {
+        if (/\s/.test(char) && this.current.length === 0) continue;
+        elementStart = i;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+      }
+    }
+
+    if (elementStart >= 0) {
+      this.current += text.slice(elementStart);
+    }
+
+    if (this.current.length > this.maxElementSize) {
+      throw new Error(`Elemento ${this.index + 1} do array excede ${this.maxElementSize} bytes`);
+    }
+  }
+
+  private emitElement(closing: boolean): void {
+    const elementText = this.current.trim();
+    this.current = '';
+
+    if (elementText.length === 0) {
+      // Array vazio ("[]") é válido; vírgulas sobrando não
+      if (closing && this.index === 0) return;
+      throw new Error('Array JSON malformado no stream');
+    }
+
+    let element: JsonArrayElement;
+    try {
+      element = { value: JSON.parse(elementText) };
+    } catch (error: unknown) {
+      throw new Error(`Elemento ${this.index + 1} do array não é um JSON válido`);
+    }
+    this.push(element);
+    this.index++;
+  }
+}
+
+/**
+ * Repassa os chunks sem alterá-los e grava uma cópia em arquivo (com backpressure do arquivo).
+ * O stream só termina depois que o arquivo foi completamente gravado.
+ */
+export class FileTeeTransform extends Transform {
+  private readonly file: fs.WriteStream;
+
+  constructor(filePath: string) {
+    super();
+    this.file = fs.createWriteStream(filePath, { mode: 0o600 });
+    this.file.on('error', error => this.destroy(error));
+  }
+
+  _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+    if (this.file.write(chunk)) {
+      callback(null, chunk);
+    } else {
+      this.file.once('drain', () => callback(null, chunk));
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.file.end(() => callback());
+  }
+
+  _destroy(error: Error | null, callback: (error: Error | null) => void): void {
+    this.file.destroy();
+    callback(error);
+  }
+}
+
+/**
+ * Consome e descarta um stream (ex.: para só verificar autenticação e formato)
+ */
+export const createDiscardSink = (): Writable =>
+  new Writable({
+    objectMode: true,
+    write(chunk: unknown, encoding: BufferEncoding, callback: (error?: Error | null) => void) {
+      callback();
+    }
+  });
@@ -0,0 +1,76 @@
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * Cache em memória com expiração (TTL) e limite de entradas.
+ * Ao atingir o limite, remove a entrada usada há mais tempo (LRU).
+ */
+export class TtlCache<K, V> {
+  private readonly entries = new Map<K, CacheEntry<V>>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private readonly ttlMs: number, private readonly maxEntries: number) {}
+
+  public get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    // Reinserir para marcar como usado recentemente
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  /**
+   * @param ttlMs - Validade desta entrada (padrão: o TTL do cache)
+   */
+  public set(key: K, value: V, ttlMs: number = this.ttlMs): void {
+    this.entries.delete(key);
+
+    while (this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as K;
+      this.entries.delete(oldestKey);
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  /**
+   * Valores ainda válidos, do usado há mais tempo para o mais recente (não altera a ordem LRU)
+   */
+  public values(): V[] {
+    const now = Date.now();
+    return [...this.entries.values()].filter(entry => entry.expiresAt > now).map(entry => entry.value);
+  }
+
+  public delete(key: K): void {
+    this.entries.delete(key);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  public getStats(): { size: number; maxEntries: number; ttlMs: number; hits: number; misses: number; hitRate: number } {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      ttlMs: this.ttlMs,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0
+    };
+  }
+}
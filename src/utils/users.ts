@@ -0,0 +1,34 @@
+import { RecordValidator, User } from '@/types';
+
+/**
+ * Converte dados brutos (JSON já parseado) em array de usuários validados
+ * @param parsedData - Dados a serem convertidos
+ * @param validate - Validador por registro (padrão: estrito, falha no primeiro registro inválido)
+ * @returns Array de usuários com campos normalizados
+ */
+export const toUsers = (parsedData: unknown, validate: RecordValidator = toUser): User[] => {
+  if (!Array.isArray(parsedData)) {
+    throw new Error('Dados descriptografados devem ser um array');
+  }
+
+  return parsedData
+    .map((user: unknown, index: number) => validate(user, index))
+    .filter((user): user is User => user !== null);
+};
+
+/**
+ * Valida e normaliza um único registro de usuário
+ * @param user - Registro bruto
+ * @param index - Posição do registro na origem (para mensagens de erro)
+ */
+export const toUser = (user: any, index: number): User => {
+  if (!user || !user.nome || !user.email || !user.phone) {
+    throw new Error(`Usuário ${index + 1} está incompleto`);
+  }
+
+  return {
+    nome: String(user.nome).trim(),
+    email: String(user.email).trim().toLowerCase(),
+    phone: String(user.phone).trim()
+  };
+};
@@ -0,0 +1,25 @@
+import { parentPort } from 'worker_threads';
+import { DecryptTask } from '@/types';
+import { getCipherSuite } from '@/services/cipherSuites';
+import { decryptJweContent } from '@/services/jwe';
+
+// Worker thread para descriptografias grandes, fora do event loop principal
+const toBuffer = (data: Uint8Array): Buffer => Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+parentPort!.on('message', ({ id, payload }: { id: number; payload: DecryptTask }) => {
+  try {
+    const plaintext = payload.kind === 'jwe'
+      ? decryptJweContent(payload)
+      : getCipherSuite(payload.algorithm).decrypt(
+        toBuffer(payload.key),
+        toBuffer(payload.iv),
+        toBuffer(payload.ciphertext),
+        toBuffer(payload.authTag)
+      );
+
+    parentPort!.postMessage({ id, result: plaintext.toString('utf8') });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+    parentPort!.postMessage({ id, error: errorMessage });
+  }
+});